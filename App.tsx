@@ -1,13 +1,35 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import TerrainUtil, { W3E } from './TerrainUtil';
-
-interface ColorMapping {
-    slotIndex: number;
-    color: string;
-    active: boolean;
-    textureId?: string;
-}
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import TerrainUtil, { W3E, W3EValidationError } from './TerrainUtil';
+import TerrainHistory, { HistoryState } from './TerrainHistory';
+import CornerData, { CornerField } from './CornerData';
+import HeightTools, { HeightTool } from './HeightTools';
+import FlagTools, { CornerFlag, CORNER_FLAGS } from './FlagTools';
+import { PaletteKind, PaletteEdit, MAX_PALETTE_SIZE } from './PaletteTools';
+import PaletteManager from './PaletteManager';
+import MapSizeDialog, { MapSizeMode } from './MapSizeDialog';
+import DiagnosticsDialog, { DiagnosticsReport } from './DiagnosticsDialog';
+import TilesetCatalog from './TilesetCatalog';
+import ImageMapping, { ColorMapping, MappingOptions, MappingTarget, DEFAULT_MAPPING_OPTIONS } from './ImageMapping';
+import MappingDialog from './MappingDialog';
+import VariationTools, { GROUND_VARIATION_MAX } from './VariationTools';
+import HeightmapTools, { HeightSamples } from './HeightmapTools';
+import HeightmapDialog from './HeightmapDialog';
+import GeneratorDialog from './GeneratorDialog';
+import TerrainDiff, { MergeLayer, MERGE_LAYERS } from './TerrainDiff';
+import DiffDialog from './DiffDialog';
+import LayerExportDialog from './LayerExportDialog';
+import MpqArchive, { W3E_ARCHIVE_PATH } from './MpqArchive';
+import PathingMap, { WPM, PathingLayer, PATHING_LAYERS, WPM_ARCHIVE_PATH } from './PathingMap';
+import SessionStore, { SessionSummary, TerrainCodec } from './SessionStore';
+import ProjectFile, { PROJECT_EXTENSION } from './ProjectFile';
+import PalettePresets from './PalettePresets';
+import TerrainProcessor, { ProcessingCancelledError } from './TerrainProcessor';
+import TerrainViewport from './TerrainViewport';
+import TerrainRenderer, { CornerRect, RenderStyle, ViewMode } from './TerrainRenderer';
+import BrushTools, { BrushShape, DrawTool, CornerPoint, MAX_BRUSH_SIZE } from './BrushTools';
+import SelectionTools, { TerrainClip, TerrainStamp, ClipTransform } from './SelectionTools';
+import SymmetryTools, { SymmetryMode } from './SymmetryTools';
 
 const INITIAL_PALETTE = [
     { id: "Oaby", color: "#000000", label: "黑色" },
@@ -28,6 +50,102 @@ const INITIAL_PALETTE = [
     { id: "Itbk", color: "#004d4d", label: "更加深的青" }
 ];
 
+/** Preview color of a slot: the catalog color of the tile it holds, else the slot's fallback. */
+const getSlotColor = (tilePalette: string[] | undefined, slot: number): string =>
+    (tilePalette && TilesetCatalog.getGroundTile(tilePalette[slot])?.color) || INITIAL_PALETTE[slot % 16].color;
+
+const createMapping = (slotIndex: number): ColorMapping => ({
+    slotIndex,
+    color: INITIAL_PALETTE[slotIndex].color,
+    active: false,
+    weight: 1,
+    textureId: INITIAL_PALETTE[slotIndex].id
+});
+
+const HEIGHT_TOOLS: { id: HeightTool; label: string }[] = [
+    { id: 'raise', label: 'Raise' },
+    { id: 'lower', label: 'Lower' },
+    { id: 'flatten', label: 'Flatten' },
+    { id: 'smooth', label: 'Smooth' },
+    { id: 'noise', label: 'Noise' },
+    { id: 'cliffUp', label: 'Cliff +' },
+    { id: 'cliffDown', label: 'Cliff -' }
+];
+
+const DRAW_TOOLS: { id: DrawTool; label: string }[] = [
+    { id: 'brush', label: 'Brush' },
+    { id: 'line', label: 'Line' },
+    { id: 'rectangle', label: 'Rect' },
+    { id: 'ellipse', label: 'Ellipse' },
+    { id: 'fill', label: 'Fill' },
+    { id: 'select', label: 'Select' },
+    { id: 'lasso', label: 'Lasso' },
+    { id: 'paste', label: 'Paste' }
+];
+
+const SYMMETRY_MODES: { id: SymmetryMode; label: string }[] = [
+    { id: 'none', label: 'Off' },
+    { id: 'horizontal', label: 'Mirror Left / Right' },
+    { id: 'vertical', label: 'Mirror Top / Bottom' },
+    { id: 'both', label: 'Both Axes' },
+    { id: 'diagonal', label: 'Diagonal' },
+    { id: 'rotate2', label: '2-Way Rotation' },
+    { id: 'rotate3', label: '3-Way Rotation' },
+    { id: 'rotate4', label: '4-Way Rotation' }
+];
+
+const CLIP_TRANSFORMS: { id: ClipTransform; label: string; title: string }[] = [
+    { id: 'rotateCCW', label: '⟲', title: 'Rotate 90° counter-clockwise' },
+    { id: 'rotateCW', label: '⟳', title: 'Rotate 90° clockwise' },
+    { id: 'mirrorX', label: '↔', title: 'Mirror horizontally' },
+    { id: 'mirrorY', label: '↕', title: 'Mirror vertically' }
+];
+
+/** Canvas pixels per corner; the viewport zooms the canvas, not the cells. */
+const CELL_SIZE = 8;
+
+const EDIT_MODES: { id: EditMode; label: string }[] = [
+    { id: 'texture', label: 'Texture' },
+    { id: 'height', label: 'Height' },
+    { id: 'flags', label: 'Flags' },
+    { id: 'variation', label: 'Variation' }
+];
+
+type EditMode = 'texture' | 'height' | 'flags' | 'variation';
+
+/** Tool choices saved with a session. */
+interface ToolSettings {
+    editMode: EditMode;
+    viewMode: ViewMode;
+    drawTool: DrawTool;
+    selectedTexture: number;
+    brushSize: number;
+    brushShape: BrushShape;
+    symmetry: SymmetryMode;
+    heightTool: HeightTool;
+    heightStrength: number;
+    flattenTo: number;
+    flagTarget: CornerFlag | 'waterHeight';
+    flagValue: number;
+    waterHeightValue: number;
+    variationTool: 'randomize' | 'set';
+    variationValue: number;
+}
+
+interface SessionSettings {
+    mappings: ColorMapping[];
+    mappingOptions: MappingOptions;
+    tools: ToolSettings;
+}
+
+/** Quiet time after the last change before the session is written to IndexedDB. */
+const AUTOSAVE_DELAY = 1000;
+
+/** Shown when stale pathing is rebuilt for a resized map, which loses the blockers loaded with it. */
+const BLOCKERS_DROPPED = "doodad blockers were dropped from the pathing because the map size changed";
+
+const RANDOM_VARIATION_HINT = "Mostly the plain tile with decorated variations now and then; placeholder odds, not the World Editor's";
+
 const DEMO_FILES = [
     { name: 'Tiny Map (32x32)', path: 'demos/demo_32.w3e' },
     { name: 'Small Map (64x64)', path: 'demos/demo_64.w3e' },
@@ -39,66 +157,208 @@ const App: React.FC = () => {
     const [terrain, setTerrain] = useState<W3E | null>(null);
     const [selectedTexture, setSelectedTexture] = useState<number>(0);
     const [brushSize, setBrushSize] = useState<number>(1);
+    const [brushShape, setBrushShape] = useState<BrushShape>('square');
+    const [drawTool, setDrawTool] = useState<DrawTool>('brush');
+    const [shapeFilled, setShapeFilled] = useState(false);
+    const [replaceMask, setReplaceMask] = useState<number | null>(null);
+    const [symmetry, setSymmetry] = useState<SymmetryMode>('none');
+    const [selection, setSelection] = useState<Uint8Array | null>(null);
+    const [clipboard, setClipboard] = useState<TerrainClip | null>(null);
+    const [stamps, setStamps] = useState<TerrainStamp[]>(() => {
+        try {
+            return SelectionTools.deserialize(localStorage.getItem('terrain_stamps') || '[]');
+        } catch {
+            return [];
+        }
+    });
+    const [stampName, setStampName] = useState('');
+    const [editMode, setEditMode] = useState<EditMode>('texture');
+    const [viewMode, setViewMode] = useState<ViewMode>('texture');
+    const [heightTool, setHeightTool] = useState<HeightTool>('raise');
+    const [heightStrength, setHeightStrength] = useState<number>(16);
+    const [flattenTo, setFlattenTo] = useState<number>(0);
+    const [flagTarget, setFlagTarget] = useState<CornerFlag | 'waterHeight'>('water');
+    const [flagValue, setFlagValue] = useState<number>(1);
+    const [waterHeightValue, setWaterHeightValue] = useState<number>(0);
+    const [overlayFlags, setOverlayFlags] = useState<CornerFlag[]>([]);
+    const [showGrid, setShowGrid] = useState(false);
+    const [hoverCorner, setHoverCorner] = useState<{ col: number; row: number } | null>(null);
+    const [variationTool, setVariationTool] = useState<'randomize' | 'set'>('randomize');
+    const [variationValue, setVariationValue] = useState<number>(0);
+    const [variationSeed, setVariationSeed] = useState<number>(() => parseInt(localStorage.getItem('variation_seed') || '1') || 1);
+    const [autoVariation, setAutoVariation] = useState(false);
     const [statusMsg, setStatusMsg] = useState<{type: 'info' | 'warn', text: string} | null>(null);
+    // Decoding and encoding run in a worker; `task` is the job shown with a progress bar in the status area
+    const processor: TerrainProcessor = useMemo(() => new TerrainProcessor(), []);
+    // Sessions get their own worker, so cancelling a task never fails an autosave and autosaves never queue ahead of tasks
+    const sessionProcessor: TerrainProcessor = useMemo(() => new TerrainProcessor(), []);
+    const sessionCodec: TerrainCodec = useMemo(() => ({
+        encode: (w3e: W3E) => sessionProcessor.encode(w3e, false),
+        decode: async (bytes: Uint8Array) => {
+            const { w3e, diagnostics } = await sessionProcessor.decode(bytes);
+            if (!w3e) throw new Error(`a stored terrain cannot be read: ${diagnostics[0]?.message ?? 'unknown error'}`);
+            return w3e;
+        }
+    }), [sessionProcessor]);
+    const [task, setTask] = useState<{ label: string; fraction: number } | null>(null);
     const [showDemos, setShowDemos] = useState(false);
     
-    const [lastW3eFile, setLastW3eFile] = useState<string>(() => localStorage.getItem('last_w3e_file') || 'None');
-    const [lastImageFile, setLastImageFile] = useState<string>(() => localStorage.getItem('last_image_file') || 'None');
+    const [lastW3eFile, setLastW3eFile] = useState<string>('None');
+    const [lastImageFile, setLastImageFile] = useState<string>('None');
+    const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
 
     const [mappings, setMappings] = useState<ColorMapping[]>(
-        Array.from({ length: 16 }, (_, i) => ({ 
-            slotIndex: i, 
-            color: INITIAL_PALETTE[i].color, 
-            active: false,
-            textureId: INITIAL_PALETTE[i].id
-        }))
+        Array.from({ length: MAX_PALETTE_SIZE }, (_, i) => createMapping(i))
     );
+    const [showPaletteManager, setShowPaletteManager] = useState(false);
+    const [mapSizeMode, setMapSizeMode] = useState<MapSizeMode | null>(null);
+    const [report, setReport] = useState<DiagnosticsReport | null>(null);
+    const [showMappingDialog, setShowMappingDialog] = useState(false);
+    const [mappingOptions, setMappingOptions] = useState<MappingOptions>(DEFAULT_MAPPING_OPTIONS);
+    const [showLayerExport, setShowLayerExport] = useState(false);
+    const [showGenerator, setShowGenerator] = useState(false);
+    const [comparison, setComparison] = useState<{ fileName: string; w3e: W3E } | null>(null);
+    const [showDiffDialog, setShowDiffDialog] = useState(false);
+    const [showDiffHeatmap, setShowDiffHeatmap] = useState(true);
+    const [diffHeatmapField, setDiffHeatmapField] = useState<CornerField | 'all'>('all');
+    // The map as it was when the current stroke began; the comparison stays on it until the stroke ends
+    const [strokeBase, setStrokeBase] = useState<W3E | null>(null);
+    const [heightmap, setHeightmap] = useState<{ samples: HeightSamples; fileName: string } | null>(null);
+    // The .w3x/.w3m the current map came from; Export writes back into a copy of it
+    const [archive, setArchive] = useState<{ fileName: string; mpq: MpqArchive } | null>(null);
+    // `source` is the terrain `wpm` was loaded or regenerated for; any other terrain means it is stale
+    const [pathing, setPathing] = useState<{ wpm: WPM; blockers: Uint8Array | null; source: W3E } | null>(null);
+    const [pathingLayer, setPathingLayer] = useState<PathingLayer | 'off'>('off');
     
     const [pickingSlot, setPickingSlot] = useState<number | null>(null);
 
+    const historyRef = useRef(new TerrainHistory());
+    const [historyState, setHistoryState] = useState<HistoryState>(() => historyRef.current.getState());
+    const terrainRef = useRef<W3E | null>(null);
+    const strokeStartRef = useRef<W3E | null>(null);
+    const strokeLabelRef = useRef('Paint Stroke');
+    const strokeAnchorRef = useRef<CornerPoint | null>(null);
+    const lastPointRef = useRef<CornerPoint | null>(null);
+    const lassoRef = useRef<CornerPoint[]>([]);
+    // Everything the current stroke has touched; shape and paste tools redraw from the base, so this only grows
+    const strokeDirtyRef = useRef<CornerRect | null>(null);
+    terrainRef.current = terrain;
+
     const canvasRef = useRef<HTMLCanvasElement>(null);
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+    const rendererRef = useRef(new TerrainRenderer());
+    // Terrain changes not drawn yet; a null rect asks for a full redraw
+    const dirtyRef = useRef<{ rect: CornerRect | null } | null>(null);
     const imageCanvasRef = useRef<HTMLCanvasElement>(null);
     const w3eInputRef = useRef<HTMLInputElement>(null);
     const imageInputRef = useRef<HTMLInputElement>(null);
+    const heightmapInputRef = useRef<HTMLInputElement>(null);
+    const compareInputRef = useRef<HTMLInputElement>(null);
+    const wpmInputRef = useRef<HTMLInputElement>(null);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const presetInputRef = useRef<HTMLInputElement>(null);
     const demoDropdownRef = useRef<HTMLDivElement>(null);
     const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+    const [imageBlob, setImageBlob] = useState<Blob | null>(null);
+    // The IndexedDB session autosave writes to; loading another map starts a new one
+    const sessionIdRef = useRef<string | null>(null);
+    const autosaveFailedRef = useRef(false);
 
     const showStatus = (text: string, type: 'info' | 'warn' = 'info') => {
         setStatusMsg({ text, type });
         setTimeout(() => setStatusMsg(null), 5000);
     };
 
-    const renderTerrain = useCallback((w3e: W3E) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        const cellSize = 8;
-        canvas.width = w3e.header.width * cellSize;
-        canvas.height = w3e.header.height * cellSize;
-
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-        for (let row = 0; row < w3e.header.height; row++) {
-            for (let col = 0; col < w3e.header.width; col++) {
-                const index = row * w3e.header.width + col;
-                const corner = w3e.corners[index];
-                const slotIdx = corner.groundTexture % 16;
-                const slot = mappings[slotIdx];
-                
-                const color = slot.active ? slot.color : INITIAL_PALETTE[slotIdx].color;
-                
-                ctx.fillStyle = color;
-                ctx.fillRect(
-                    col * cellSize, 
-                    (w3e.header.height - 1 - row) * cellSize, 
-                    cellSize, 
-                    cellSize
-                );
-            }
+    useEffect(() => () => processor.dispose(), [processor]);
+    useEffect(() => () => sessionProcessor.dispose(), [sessionProcessor]);
+
+    /** Runs a worker job with its progress in the status area. Resolves to null if the user cancels it. */
+    const runTask = async <T,>(label: string, job: (onProgress: (fraction: number) => void) => Promise<T>): Promise<T | null> => {
+        setTask({ label, fraction: 0 });
+        try {
+            return await job(fraction => setTask({ label, fraction }));
+        } catch (err) {
+            if (!(err instanceof ProcessingCancelledError)) throw err;
+            showStatus(`${label} cancelled`, "warn");
+            return null;
+        } finally {
+            setTask(null);
+        }
+    };
+
+    /** Sets the terrain without recording history. `dirty` bounds the corners that changed; without it the map is redrawn. */
+    const updateTerrain = (next: W3E | null, dirty: CornerRect | null = null) => {
+        // Several edits can land before the next render; they are drawn together
+        const pending = dirtyRef.current;
+        dirtyRef.current = { rect: dirty && (!pending || pending.rect) ? TerrainRenderer.union(pending?.rect ?? null, dirty) : null };
+        terrainRef.current = next;
+        setTerrain(next);
+    };
+
+    const commitTerrain = (label: string, next: W3E) => {
+        if (historyRef.current.record(label, terrainRef.current, next)) {
+            setHistoryState(historyRef.current.getState());
+        }
+        updateTerrain(next);
+    };
+
+    const undo = useCallback(() => {
+        if (!historyRef.current.canUndo()) return;
+        updateTerrain(historyRef.current.undo(terrainRef.current));
+        setHistoryState(historyRef.current.getState());
+    }, []);
+
+    const redo = useCallback(() => {
+        if (!historyRef.current.canRedo()) return;
+        updateTerrain(historyRef.current.redo(terrainRef.current));
+        setHistoryState(historyRef.current.getState());
+    }, []);
+
+    const applyPaletteEdit = (label: string, kind: PaletteKind, edit: PaletteEdit) => {
+        commitTerrain(label, edit.w3e);
+        if (kind === 'ground') {
+            // Slot colors follow their tile to its new position
+            setMappings(prev => Array.from({ length: MAX_PALETTE_SIZE }, (_, j) => {
+                const from = j < edit.order.length ? edit.order[j] : -1;
+                return from >= 0 ? { ...prev[from], slotIndex: j } : createMapping(j);
+            }));
+            setSelectedTexture(prev => Math.max(0, edit.order.indexOf(prev)));
         }
-    }, [mappings]);
+        showStatus(label);
+    };
+
+    const jumpToHistory = (position: number) => {
+        updateTerrain(historyRef.current.jumpTo(position, terrainRef.current));
+        setHistoryState(historyRef.current.getState());
+    };
+
+    const endStroke = useCallback(() => {
+        const start = strokeStartRef.current;
+        strokeStartRef.current = null;
+        setStrokeBase(null);
+        strokeAnchorRef.current = null;
+        strokeDirtyRef.current = null;
+        lastPointRef.current = null;
+        lassoRef.current = [];
+        const current = terrainRef.current;
+        if (!start || !current) return;
+        if (historyRef.current.record(strokeLabelRef.current, start, current)) {
+            setHistoryState(historyRef.current.getState());
+        }
+    }, []);
+
+    // Holding the comparison during a stroke keeps the render style, so dabs redraw only what they touched
+    const diffTerrain = strokeBase ?? terrain;
+    const diffReport = useMemo(
+        () => diffTerrain && comparison ? TerrainDiff.compare(diffTerrain, comparison.w3e) : null,
+        [diffTerrain, comparison]
+    );
+    const diffHeat = useMemo(
+        () => diffReport && showDiffHeatmap
+            ? TerrainDiff.heatmap(diffReport, diffHeatmapField === 'all' ? undefined : [diffHeatmapField])
+            : null,
+        [diffReport, showDiffHeatmap, diffHeatmapField]
+    );
 
     useEffect(() => {
         if (sourceImage && imageCanvasRef.current) {
@@ -111,9 +371,74 @@ const App: React.FC = () => {
         }
     }, [sourceImage]);
 
+    // A selection mask only fits the map size it was made on
+    useEffect(() => {
+        setSelection(null);
+    }, [terrain?.header.width, terrain?.header.height]);
+
+    const slotCount = terrain ? terrain.header.tilePalette.length : MAX_PALETTE_SIZE;
+    const foreignSlots = new Set(terrain
+        ? TilesetCatalog.findForeignTiles(terrain).filter(f => f.kind === 'ground').map(f => f.index)
+        : []);
+    const slotColors = useMemo(
+        () => mappings.map((m, i) => m.active ? m.color : getSlotColor(terrain?.header.tilePalette, i)),
+        [mappings, terrain?.header.tilePalette]
+    );
+
+    const renderStyle = useMemo<RenderStyle>(
+        () => ({ viewMode, slotColors, overlayFlags, selection, diffHeat }),
+        [viewMode, slotColors, overlayFlags, selection, diffHeat]
+    );
+
+    // Redraws only what the edits since the last frame changed, or everything when the map or style changed
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!terrain || !canvas) return;
+        const dirty = dirtyRef.current;
+        dirtyRef.current = null;
+        rendererRef.current.render(canvas, terrain, renderStyle, dirty?.rect ?? null);
+    }, [terrain, renderStyle]);
+
+    const overlayWpm = pathingLayer !== 'off' && pathing && terrain && PathingMap.matches(pathing.wpm, terrain) ? pathing.wpm : null;
+    useEffect(() => {
+        const canvas = overlayRef.current;
+        if (!terrain || !canvas) return;
+        TerrainRenderer.drawOverlay(canvas, terrain.header.width, terrain.header.height, {
+            cellSize: CELL_SIZE,
+            grid: showGrid,
+            pathing: overlayWpm && pathingLayer !== 'off' ? { wpm: overlayWpm, layer: pathingLayer } : null,
+            symmetry
+        });
+    }, [terrain?.header.width, terrain?.header.height, showGrid, overlayWpm, pathingLayer, symmetry]);
+    const mappingTargets = useMemo<MappingTarget[]>(
+        () => mappings.filter(m => m.active && m.slotIndex < slotCount).map(m => ({
+            slotIndex: m.slotIndex,
+            rgb: ImageMapping.hexToRgb(m.color),
+            weight: m.weight
+        })),
+        [mappings, slotCount]
+    );
+    const hoverInfo = (() => {
+        if (!terrain || !hoverCorner || hoverCorner.col >= terrain.header.width || hoverCorner.row >= terrain.header.height) return null;
+        const { col, row } = hoverCorner;
+        const corner = terrain.corners.get(row * terrain.header.width + col);
+        const pos = TerrainUtil.getCornerPosition(terrain, col, row);
+        const flags = CORNER_FLAGS.filter(f => f.id !== 'mapEdge' && f.id !== 'water' && corner[f.id]).map(f => f.label);
+        return [
+            `Col ${col} Row ${row}`,
+            `World (${pos.x}, ${pos.y})`,
+            `Tex ${corner.groundTexture}:${terrain.header.tilePalette[corner.groundTexture] ?? '?'} var ${corner.groundVariation}`,
+            `Height ${corner.groundHeight} · Cliff ${corner.layerHeight} (${TerrainUtil.getWorldHeight(corner)})`,
+            corner.water ? `Water ${corner.waterHeight}` : null,
+            flags.length ? flags.join(' ') : null,
+            corner.mapEdge ? `Edge ${corner.mapEdge}` : null
+        ].filter(Boolean).join(' · ');
+    })();
+    const tilesetName = terrain ? TilesetCatalog.getTileset(terrain.header.baseTileset)?.name ?? `Unknown '${terrain.header.baseTileset}'` : null;
+
     useEffect(() => {
-        if (terrain) renderTerrain(terrain);
-    }, [terrain, renderTerrain]);
+        if (selectedTexture >= slotCount) setSelectedTexture(0);
+    }, [selectedTexture, slotCount]);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -125,24 +450,200 @@ const App: React.FC = () => {
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
-    const handleW3eFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    useEffect(() => {
+        window.addEventListener('mouseup', endStroke);
+        return () => window.removeEventListener('mouseup', endStroke);
+    }, [endStroke]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const target = e.target as HTMLElement | null;
+            // Form fields and editable text keep their own undo and shortcuts
+            if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo(); else undo();
+            } else if (key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    const handleW3eFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = '';
         if (!file) return;
 
-        const reader = new FileReader();
-        reader.onload = (ev) => {
-            try {
-                const decoded = TerrainUtil.decodeW3e(new Uint8Array(ev.target?.result as ArrayBuffer));
-                setTerrain(decoded);
-                setLastW3eFile(file.name);
-                localStorage.setItem('last_w3e_file', file.name);
-                showStatus("Map Loaded: " + file.name);
-            } catch (err) {
-                showStatus("Failed to decode W3E", "warn");
-                console.error(err);
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        try {
+            if (!MpqArchive.isArchive(bytes)) {
+                await openW3e(bytes, `Load ${file.name}`, file.name, "Map Loaded: " + file.name);
+                return;
+            }
+            const mpq = MpqArchive.open(bytes);
+            if (!mpq.has(W3E_ARCHIVE_PATH)) throw new Error(`it has no ${W3E_ARCHIVE_PATH}`);
+            const w3e = await mpq.read(W3E_ARCHIVE_PATH);
+            const wpm = mpq.has(WPM_ARCHIVE_PATH) ? PathingMap.decode(await mpq.read(WPM_ARCHIVE_PATH)) : null;
+            await openW3e(w3e, `Load ${file.name}`, file.name, "Map Loaded: " + file.name, { fileName: file.name, mpq }, wpm);
+        } catch (err: any) {
+            showStatus(`Cannot open ${file.name}: ${err.message}`, "warn");
+        }
+    };
+
+    /** Strictly decodes a file in the worker; problems are shown as a report instead of loading garbage. */
+    const openW3e = async (buffer: Uint8Array, label: string, fileLabel: string, statusText: string, source: typeof archive = null, wpm: WPM | null = null) => {
+        const decoded = await runTask(`Decoding ${fileLabel}`, onProgress => processor.decode(buffer, onProgress));
+        if (!decoded) return;
+        const load = (w3e: W3E) => {
+            commitTerrain(label, w3e);
+            setArchive(source);
+            setPathing(wpm ? attachPathing(wpm, w3e) : null);
+            setLastW3eFile(fileLabel);
+            sessionIdRef.current = SessionStore.createId();
+            showStatus(statusText);
+        };
+
+        const errors = decoded.diagnostics.filter(d => d.severity === 'error').length;
+        if (decoded.w3e && errors === 0) {
+            load(decoded.w3e);
+            if (decoded.diagnostics.length > 0) {
+                showStatus(`${statusText} (${decoded.diagnostics.length} warnings, see Validate)`, "warn");
+            }
+            return;
+        }
+
+        const w3e = decoded.w3e;
+        setReport({
+            title: `Failed to decode ${fileLabel}`,
+            diagnostics: decoded.diagnostics,
+            action: w3e ? { label: 'Load Anyway', run: () => load(w3e) } : undefined
+        });
+        showStatus("Failed to decode W3E", "warn");
+    };
+
+    const downloadFile = (fileName: string, bytes: Uint8Array, type = 'application/octet-stream') => {
+        const blob = new Blob([bytes], { type });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        a.click();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+    };
+
+    /** Pathing for a freshly loaded terrain; blockers are only known when the sizes agree. */
+    const attachPathing = (wpm: WPM, w3e: W3E) => ({
+        wpm,
+        blockers: PathingMap.matches(wpm, w3e) ? PathingMap.extractBlockers(wpm, w3e) : null,
+        source: w3e
+    });
+
+    /** Pathing for the current terrain, regenerated if it is stale. `blockersDropped` is set when a size change cost the doodad blockers. */
+    const currentPathing = (): { wpm: WPM; blockersDropped: boolean } | null => {
+        if (!pathing || !terrain) return null;
+        if (pathing.source === terrain) return { wpm: pathing.wpm, blockersDropped: false };
+        const keepsBlockers = !!pathing.blockers && PathingMap.matches(pathing.wpm, terrain);
+        const wpm = PathingMap.regenerate(terrain, keepsBlockers ? pathing.blockers : null, pathing.wpm);
+        setPathing({ wpm, blockers: keepsBlockers ? pathing.blockers : null, source: terrain });
+        return { wpm, blockersDropped: !!pathing.blockers && !keepsBlockers };
+    };
+
+    const regeneratePathing = () => {
+        if (!terrain) return;
+        const keepsBlockers = !!pathing?.blockers && PathingMap.matches(pathing.wpm, terrain);
+        const wpm = PathingMap.regenerate(terrain, keepsBlockers ? pathing!.blockers : null, pathing?.wpm);
+        setPathing({ wpm, blockers: keepsBlockers ? pathing!.blockers : null, source: terrain });
+        if (pathing?.blockers && !keepsBlockers) {
+            showStatus(`Pathing regenerated; ${BLOCKERS_DROPPED}`, "warn");
+        } else {
+            showStatus(keepsBlockers ? "Pathing regenerated, doodad blockers kept" : "Pathing regenerated from terrain");
+        }
+    };
+
+    const handleWpmFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !terrain) return;
+
+        try {
+            const wpm = PathingMap.decode(new Uint8Array(await file.arrayBuffer()));
+            setPathing(attachPathing(wpm, terrain));
+            if (pathingLayer === 'off') setPathingLayer('walk');
+            if (PathingMap.matches(wpm, terrain)) {
+                showStatus(`Pathing Loaded: ${file.name}`);
+            } else {
+                const size = PathingMap.sizeFor(terrain);
+                showStatus(`${file.name} is ${wpm.width}x${wpm.height} cells, expected ${size.width}x${size.height}; regenerate to fit`, "warn");
             }
+        } catch (err: any) {
+            showStatus(`Cannot load ${file.name}: ${err.message}`, "warn");
+        }
+    };
+
+    const exportWpm = () => {
+        const current = currentPathing();
+        if (!current) return;
+        downloadFile(WPM_ARCHIVE_PATH, PathingMap.encode(current.wpm));
+        if (current.blockersDropped) showStatus(`Pathing exported; ${BLOCKERS_DROPPED}`, "warn");
+    };
+
+    const downloadW3e = async (encoded: Uint8Array) => {
+        if (!archive) {
+            downloadFile('war3map.w3e', encoded);
+            return;
+        }
+        try {
+            const files: Record<string, Uint8Array> = { [W3E_ARCHIVE_PATH]: encoded };
+            const current = currentPathing();
+            if (current) files[WPM_ARCHIVE_PATH] = PathingMap.encode(current.wpm);
+            downloadFile(archive.fileName, await archive.mpq.replace(files));
+            if (current?.blockersDropped) {
+                showStatus(`Exported into ${archive.fileName}; ${BLOCKERS_DROPPED}`, "warn");
+            } else {
+                showStatus(`Exported into ${archive.fileName}`);
+            }
+        } catch (err: any) {
+            showStatus(`Cannot write ${archive.fileName}: ${err.message}`, "warn");
+        }
+    };
+
+    const exportW3e = async () => {
+        if (!terrain) return;
+        const encode = async (validate: boolean) => {
+            const bytes = await runTask('Encoding map', onProgress => processor.encode(terrain, validate, onProgress));
+            if (bytes) await downloadW3e(bytes);
         };
-        reader.readAsArrayBuffer(file);
+        try {
+            await encode(true);
+        } catch (err: any) {
+            if (!(err instanceof W3EValidationError)) {
+                showStatus(`Export failed: ${err.message}`, "warn");
+                return;
+            }
+            setReport({
+                title: 'Export blocked by validation errors',
+                diagnostics: err.diagnostics,
+                action: {
+                    label: 'Export Anyway',
+                    run: () => encode(false).catch(e => showStatus(`Export failed: ${e.message}`, "warn"))
+                }
+            });
+        }
+    };
+
+    const validateTerrain = async () => {
+        if (!terrain) return;
+        try {
+            const diagnostics = await runTask('Validating map', onProgress => processor.validate(terrain, onProgress));
+            if (diagnostics) setReport({ title: 'Validation Report', diagnostics });
+        } catch (err: any) {
+            showStatus(`Validation failed: ${err.message}`, "warn");
+        }
     };
 
     const loadDemoW3e = async (demo: typeof DEMO_FILES[0]) => {
@@ -150,43 +651,229 @@ const App: React.FC = () => {
             const response = await fetch(demo.path);
             if (!response.ok) throw new Error(`Demo file '${demo.name}' not found at ${demo.path}.`);
             const buffer = await response.arrayBuffer();
-            const decoded = TerrainUtil.decodeW3e(new Uint8Array(buffer));
-            setTerrain(decoded);
-            setLastW3eFile(`[Demo] ${demo.name}`);
-            localStorage.setItem('last_w3e_file', `[Demo] ${demo.name}`);
-            showStatus("Demo Loaded: " + demo.name);
             setShowDemos(false);
+            await openW3e(new Uint8Array(buffer), `Load Demo ${demo.name}`, `[Demo] ${demo.name}`, "Demo Loaded: " + demo.name);
         } catch (err: any) {
             showStatus(err.message || "Failed to load demo file", "warn");
             console.error(err);
         }
     };
 
-    const createBlankMap = () => {
-        const blank = TerrainUtil.generateEmptyW3e(64, 64);
-        setTerrain(blank);
-        setLastW3eFile("New 64x64 Map");
-        localStorage.setItem('last_w3e_file', "New 64x64 Map");
-        showStatus("Created New Map");
+    const openMapSizeDialog = (mode: MapSizeMode) => {
+        setMapSizeMode(mode);
         setShowDemos(false);
     };
 
-    const handleImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
+    const applyMapSize = (label: string, w3e: W3E, mode: MapSizeMode) => {
+        commitTerrain(label, w3e);
+        if (mode === 'new') {
+            setArchive(null);
+            setPathing(null);
+            setLastW3eFile(label);
+            sessionIdRef.current = SessionStore.createId();
+            showStatus("Created New Map");
+        } else {
+            showStatus(label);
+        }
+    };
+
+    const restoreSession = async (id: string) => {
+        try {
+            const session = await SessionStore.load<SessionSettings>(id, sessionCodec);
+            if (!session) throw new Error("it is no longer stored");
+            sessionIdRef.current = session.id;
+            historyRef.current.restore(session.history);
+            setHistoryState(historyRef.current.getState());
+            updateTerrain(session.terrain);
+            setLastW3eFile(session.terrain ? session.name : 'None');
+            setSelection(null);
+            setComparison(null);
+            setArchive(session.archive ? { fileName: session.archive.fileName, mpq: MpqArchive.open(session.archive.bytes) } : null);
+
+            const { terrain: restored, pathing: saved } = session;
+            setPathing(restored && saved ? {
+                wpm: saved.stale ? PathingMap.regenerate(restored, saved.blockers, saved.wpm) : saved.wpm,
+                blockers: saved.blockers,
+                source: restored
+            } : null);
+
+            const { mappings: savedMappings, mappingOptions: savedOptions, tools } = session.settings;
+            if (savedMappings?.length === MAX_PALETTE_SIZE) setMappings(savedMappings);
+            if (savedOptions) setMappingOptions(savedOptions);
+            if (tools) {
+                setEditMode(tools.editMode);
+                setViewMode(tools.viewMode);
+                setDrawTool(tools.drawTool);
+                setSelectedTexture(tools.selectedTexture);
+                setBrushSize(tools.brushSize);
+                setBrushShape(tools.brushShape);
+                setSymmetry(tools.symmetry);
+                setHeightTool(tools.heightTool);
+                setHeightStrength(tools.heightStrength);
+                setFlattenTo(tools.flattenTo);
+                setFlagTarget(tools.flagTarget);
+                setFlagValue(tools.flagValue);
+                setWaterHeightValue(tools.waterHeightValue);
+                setVariationTool(tools.variationTool);
+                setVariationValue(tools.variationValue);
+            }
+
+            if (session.image) {
+                // Set right away so an autosave before the image decodes still keeps it
+                setImageBlob(session.image);
+                setLastImageFile(session.imageName ?? 'image');
+                loadSourceImage(session.image, session.imageName ?? 'image', "Session Restored: " + session.name);
+            } else {
+                setSourceImage(null);
+                setImageBlob(null);
+                setLastImageFile('None');
+                showStatus("Session Restored: " + session.name);
+            }
+        } catch (err: any) {
+            showStatus(`Cannot restore session: ${err.message}`, "warn");
+        }
+    };
+
+    const forgetSession = async (id: string) => {
+        try {
+            await SessionStore.remove(id);
+            if (sessionIdRef.current === id) sessionIdRef.current = null;
+            setRecentSessions(await SessionStore.list());
+        } catch (err: any) {
+            showStatus(`Cannot remove session: ${err.message}`, "warn");
+        }
+    };
+
+    // Without IndexedDB there is nothing to restore; autosave reports the problem once there is work to keep
+    useEffect(() => {
+        SessionStore.list().then(
+            recent => {
+                setRecentSessions(recent);
+                if (recent.length > 0) restoreSession(recent[0].id);
+            },
+            () => {}
+        );
+    }, []);
+
+    useEffect(() => {
+        if (!terrain && !imageBlob) return;
+        const timer = setTimeout(async () => {
+            sessionIdRef.current ??= SessionStore.createId();
+            const tools: ToolSettings = {
+                editMode, viewMode, drawTool, selectedTexture, brushSize, brushShape, symmetry,
+                heightTool, heightStrength, flattenTo, flagTarget, flagValue, waterHeightValue, variationTool, variationValue
+            };
+            try {
+                setRecentSessions(await SessionStore.save({
+                    id: sessionIdRef.current,
+                    name: terrain ? lastW3eFile : lastImageFile,
+                    terrain,
+                    history: historyRef.current.snapshot(),
+                    image: imageBlob,
+                    imageName: imageBlob ? lastImageFile : null,
+                    archive: archive ? { fileName: archive.fileName, bytes: archive.mpq.bytes } : null,
+                    pathing: pathing ? { wpm: pathing.wpm, blockers: pathing.blockers, stale: pathing.source !== terrain } : null,
+                    settings: { mappings, mappingOptions, tools } satisfies SessionSettings
+                }, sessionCodec));
+                autosaveFailedRef.current = false;
+            } catch (err: any) {
+                if (!autosaveFailedRef.current) showStatus(`Autosave failed: ${err.message}`, "warn");
+                autosaveFailedRef.current = true;
+            }
+        }, AUTOSAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [
+        terrain, historyState, imageBlob, mappings, mappingOptions, archive, pathing, lastW3eFile, lastImageFile,
+        editMode, viewMode, drawTool, selectedTexture, brushSize, brushShape, symmetry,
+        heightTool, heightStrength, flattenTo, flagTarget, flagValue, waterHeightValue, variationTool, variationValue
+    ]);
 
+    const loadSourceImage = (blob: Blob, name: string, statusText: string) => {
         const reader = new FileReader();
         reader.onload = (event) => {
             const img = new Image();
             img.onload = () => {
                 setSourceImage(img);
-                setLastImageFile(file.name);
-                localStorage.setItem('last_image_file', file.name);
-                showStatus("Image ready: " + file.name);
+                setImageBlob(blob);
+                setLastImageFile(name);
+                showStatus(statusText);
             };
             img.src = event.target?.result as string;
         };
-        reader.readAsDataURL(file);
+        reader.readAsDataURL(blob);
+    };
+
+    const handleImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        loadSourceImage(file, file.name, "Image ready: " + file.name);
+    };
+
+    const handleCompareFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            const decoded = await runTask(`Decoding ${file.name}`, onProgress => processor.decode(bytes, onProgress));
+            if (!decoded) return;
+            if (!decoded.w3e) throw new Error(decoded.diagnostics[0]?.message ?? "unreadable file");
+            setComparison({ fileName: file.name, w3e: decoded.w3e });
+            setShowDiffHeatmap(true);
+            setShowDiffDialog(true);
+        } catch (err: any) {
+            showStatus(`Cannot compare ${file.name}: ${err.message}`, "warn");
+        }
+    };
+
+    const mergeComparison = (layers: MergeLayer[], selectionOnly: boolean, remap: boolean) => {
+        if (!terrain || !comparison) return;
+        try {
+            const merged = TerrainDiff.merge(terrain, comparison.w3e, layers, selectionOnly ? selection : null, remap);
+            if (!merged) {
+                showStatus("Nothing to merge: the chosen layers already match");
+                return;
+            }
+            const names = MERGE_LAYERS.filter(l => layers.includes(l.id)).map(l => l.label).join(", ");
+            commitTerrain(`Merge ${names} from ${comparison.fileName}`, merged);
+            showStatus(`Merged ${names} from ${comparison.fileName}`);
+        } catch (err: any) {
+            showStatus(err.message || "Merge failed", "warn");
+        }
+    };
+
+    const handleHeightmapFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            let samples = await HeightmapTools.decodePng16(new Uint8Array(await file.arrayBuffer()));
+            if (!samples) {
+                const url = URL.createObjectURL(file);
+                try {
+                    const img = new Image();
+                    await new Promise((resolve, reject) => {
+                        img.onload = resolve;
+                        img.onerror = () => reject(new Error("Could not read image: " + file.name));
+                        img.src = url;
+                    });
+                    const canvas = document.createElement('canvas');
+                    canvas.width = img.width;
+                    canvas.height = img.height;
+                    const ctx = canvas.getContext('2d');
+                    if (!ctx) return;
+                    ctx.drawImage(img, 0, 0);
+                    samples = HeightmapTools.fromPixels(ctx.getImageData(0, 0, img.width, img.height));
+                } finally {
+                    URL.revokeObjectURL(url);
+                }
+            }
+            setHeightmap({ samples, fileName: file.name });
+        } catch (err: any) {
+            showStatus(err.message || "Heightmap import failed", "warn");
+        }
     };
 
     const handleImageCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -214,100 +901,392 @@ const App: React.FC = () => {
         showStatus(`Slot ${pickingSlot} updated from image`);
     };
 
-    const hexToRgb = (hex: string) => {
-        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-        return result ? {
-            r: parseInt(result[1], 16),
-            g: parseInt(result[2], 16),
-            b: parseInt(result[3], 16)
-        } : { r: 0, g: 0, b: 0 };
+    const openMappingDialog = () => {
+        if (!terrain || !sourceImage) return;
+        if (mappingTargets.length === 0) {
+            showStatus("No modified slots active!", "warn");
+            return;
+        }
+        setShowMappingDialog(true);
+    };
+
+    const saveMapping = () => {
+        const text = ImageMapping.serializeMapping(mappingTargets, mappingOptions);
+        downloadFile('mapping.json', new TextEncoder().encode(text), 'application/json');
     };
 
-    const applyImageToTerrain = () => {
-        if (!terrain || !sourceImage || !imageCanvasRef.current) return;
-        
-        const activeMappings = mappings.filter(m => m.active).map(m => ({
-            ...m,
-            rgb: hexToRgb(m.color)
-        }));
+    /** File name stem for downloads named after the current map or image. */
+    const workName = () => {
+        const name = terrain ? lastW3eFile : lastImageFile;
+        return name === 'None' ? 'terrain' : name.replace(/\.[^.]*$/, '').replace(/[\\/:*?"<>|]/g, '_');
+    };
 
-        if (activeMappings.length === 0) {
-            showStatus("No modified slots active!", "warn");
+    const saveProject = async () => {
+        if (!terrain && !imageBlob) return;
+        const name = workName();
+        let encoded: Uint8Array | null = null;
+        if (terrain) {
+            try {
+                encoded = await runTask('Encoding map', onProgress => processor.encode(terrain, false, onProgress));
+            } catch (err: any) {
+                showStatus(`Cannot save project: ${err.message}`, "warn");
+                return;
+            }
+            if (!encoded) return;
+        }
+        const text = ProjectFile.serialize({
+            name,
+            terrain: encoded,
+            image: imageBlob ? { name: lastImageFile, type: imageBlob.type, bytes: new Uint8Array(await imageBlob.arrayBuffer()) } : null,
+            mappings,
+            mappingOptions
+        });
+        downloadFile(name + PROJECT_EXTENSION, new TextEncoder().encode(text), 'application/json');
+        setShowDemos(false);
+    };
+
+    const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const project = ProjectFile.parse(await file.text());
+            const { terrain: bytes } = project;
+            if (bytes) {
+                const decoded = await runTask(`Decoding ${file.name}`, onProgress => processor.decode(bytes, onProgress));
+                if (!decoded) return;
+                if (!decoded.w3e) throw new Error(`Project terrain cannot be read: ${decoded.diagnostics[0]?.message ?? 'unknown error'}`);
+                commitTerrain(`Open Project ${project.name}`, decoded.w3e);
+                setLastW3eFile(project.name);
+            }
+            sessionIdRef.current = SessionStore.createId();
+            setArchive(null);
+            setPathing(null);
+            setSelection(null);
+            setMappings(Array.from({ length: MAX_PALETTE_SIZE }, (_, i) => project.mappings[i] ?? createMapping(i)));
+            setMappingOptions(project.mappingOptions);
+            if (project.image) {
+                const blob = new Blob([project.image.bytes], { type: project.image.type });
+                loadSourceImage(blob, project.image.name, "Project Opened: " + project.name);
+            } else {
+                setSourceImage(null);
+                setImageBlob(null);
+                setLastImageFile('None');
+                showStatus("Project Opened: " + project.name);
+            }
+        } catch (err: any) {
+            showStatus(`Cannot open ${file.name}: ${err.message}`, "warn");
+        }
+    };
+
+    const savePreset = () => {
+        const name = workName();
+        const preset = PalettePresets.create(name, mappings.slice(0, slotCount), terrain?.header.tilePalette);
+        if (preset.entries.length === 0) {
+            showStatus("No active slots to save; pick slot colors first", "warn");
             return;
         }
+        downloadFile(`${name}.palette.json`, new TextEncoder().encode(PalettePresets.serialize(preset)), 'application/json');
+    };
 
-        const { width, height } = terrain.header;
-        const offCanvas = document.createElement('canvas');
-        offCanvas.width = width;
-        offCanvas.height = height;
-        const offCtx = offCanvas.getContext('2d');
-        if (!offCtx) return;
-
-        offCtx.drawImage(sourceImage, 0, 0, width, height);
-        const imgData = offCtx.getImageData(0, 0, width, height).data;
-
-        const newTerrain = { ...terrain };
-        const corners = [...newTerrain.corners];
-
-        for (let row = 0; row < height; row++) {
-            for (let col = 0; col < width; col++) {
-                const imgRow = (height - 1) - row;
-                const pixelIndex = (imgRow * width + col) * 4;
-                const r = imgData[pixelIndex];
-                const g = imgData[pixelIndex + 1];
-                const b = imgData[pixelIndex + 2];
-
-                let minDistance = Infinity;
-                let bestSlot = corners[row * width + col].groundTexture;
-
-                for (const m of activeMappings) {
-                    const dr = r - m.rgb.r;
-                    const dg = g - m.rgb.g;
-                    const db = b - m.rgb.b;
-                    const dist = dr * dr + dg * dg + db * db;
-                    if (dist < minDistance) {
-                        minDistance = dist;
-                        bestSlot = m.slotIndex;
-                    }
-                }
-                corners[row * width + col] = { ...corners[row * width + col], groundTexture: bestSlot };
+    const handlePresetFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const preset = PalettePresets.parse(await file.text());
+            const result = PalettePresets.apply(preset, mappings, terrain?.header.tilePalette);
+            if (result.applied === 0) {
+                showStatus(`Preset '${preset.name}' has none of this map's tiles`, "warn");
+                return;
             }
+            setMappings(result.mappings);
+            showStatus(result.missing.length
+                ? `Preset '${preset.name}' set ${result.applied} slots; not in this palette: ${result.missing.join(", ")}`
+                : `Preset '${preset.name}' set ${result.applied} slots`,
+                result.missing.length ? "warn" : "info");
+        } catch (err: any) {
+            showStatus(`Cannot load ${file.name}: ${err.message}`, "warn");
         }
+    };
 
-        setTerrain({ ...newTerrain, corners });
-        showStatus("Mapping applied");
+    const changeVariationSeed = (seed: number) => {
+        const value = seed >>> 0;
+        setVariationSeed(value);
+        localStorage.setItem('variation_seed', String(value));
     };
 
-    const handleTerrainPaint = (e: React.MouseEvent<HTMLCanvasElement>) => {
-        if (!terrain || e.buttons !== 1) return;
+    const randomizeAllVariations = () => {
+        if (!terrain) return;
+        commitTerrain('Randomize Variations', VariationTools.randomize(terrain, variationSeed));
+        showStatus(`Variations randomized (seed ${variationSeed})`);
+    };
+
+    const copySelection = () => {
+        if (!terrain || !selection) return;
+        const clip = SelectionTools.copy(terrain, selection);
+        if (!clip) {
+            showStatus("Selection is empty", "warn");
+            return;
+        }
+        setClipboard(clip);
+        setDrawTool('paste');
+        showStatus(`Copied ${clip.width}x${clip.height} corners`);
+    };
+
+    const transformClipboard = (op: ClipTransform) => {
+        if (clipboard) setClipboard(SelectionTools.transform(clipboard, op));
+    };
+
+    const saveStamps = (next: TerrainStamp[]) => {
+        setStamps(next);
+        try {
+            localStorage.setItem('terrain_stamps', SelectionTools.serialize(next));
+        } catch {
+            showStatus("Stamps could not be saved to browser storage", "warn");
+        }
+    };
+
+    const saveStamp = () => {
+        const name = stampName.trim();
+        if (!clipboard || !name) return;
+        saveStamps([...stamps.filter(s => s.name !== name), { name, clip: clipboard }]);
+        setStampName('');
+        showStatus(`Stamp '${name}' saved`);
+    };
+
+    const loadStamp = (stamp: TerrainStamp) => {
+        setClipboard(stamp.clip);
+        setDrawTool('paste');
+    };
+
+    const applyMapping = (label: string, next: W3E) => {
+        // The image cannot be mirrored corner by corner, so its lower / left part is copied over the rest
+        const mirrored = SymmetryTools.enforce(next, symmetry, ['groundTexture']) ?? next;
+        commitTerrain(label, autoVariation && terrain ? VariationTools.randomizeRetextured(terrain, mirrored, variationSeed) : mirrored);
+        showStatus(symmetry === 'none' ? "Mapping applied" : "Mapping applied with symmetry");
+    };
+
+    const checkSymmetry = () => {
+        if (!terrain || symmetry === 'none') return;
+        const diagnostics = SymmetryTools.check(terrain, symmetry);
+        const mode = SYMMETRY_MODES.find(m => m.id === symmetry)!.label;
+        setReport({
+            title: `Symmetry Check: ${mode}`,
+            diagnostics,
+            action: diagnostics.length > 0 ? {
+                label: 'Enforce Symmetry',
+                run: () => {
+                    const enforced = SymmetryTools.enforce(terrain, symmetry);
+                    if (enforced) commitTerrain(`Enforce Symmetry: ${mode}`, enforced);
+                }
+            } : undefined
+        });
+    };
+
+    const setSlotWeight = (slotIndex: number, weight: number) => {
+        setMappings(prev => prev.map(m => m.slotIndex === slotIndex ? { ...m, weight } : m));
+    };
+
+    /**
+     * Corner under the mouse, in terrain coordinates (row 0 at the bottom).
+     * Outside the map this is null, or the nearest edge corner with `clamp`.
+     */
+    const cornerAt = (e: React.MouseEvent<HTMLCanvasElement>, terrain: W3E, clamp = false): CornerPoint | null => {
         const canvas = canvasRef.current;
-        if (!canvas) return;
+        if (!canvas) return null;
+        const { width, height } = terrain.header;
         const rect = canvas.getBoundingClientRect();
-        const cellSize = 8;
-        const col = Math.floor(((e.clientX - rect.left) * (canvas.width / rect.width)) / cellSize);
-        const row = (terrain.header.height - 1) - Math.floor(((e.clientY - rect.top) * (canvas.height / rect.height)) / cellSize);
-        
-        if (col >= 0 && col < terrain.header.width && row >= 0 && row < terrain.header.height) {
-            const newTerrain = { ...terrain };
-            const corners = [...newTerrain.corners];
-            const halfBrush = Math.floor(brushSize / 2);
-            let modified = false;
-
-            for (let dy = -halfBrush; dy <= halfBrush; dy++) {
-                for (let dx = -halfBrush; dx <= halfBrush; dx++) {
-                    const tc = col + dx;
-                    const tr = row + dy;
-                    if (tc >= 0 && tc < terrain.header.width && tr >= 0 && tr < terrain.header.height) {
-                        const idx = tr * terrain.header.width + tc;
-                        if (corners[idx].groundTexture !== selectedTexture) {
-                            corners[idx] = { ...corners[idx], groundTexture: selectedTexture };
-                            modified = true;
-                        }
-                    }
-                }
+        let col = Math.floor((e.clientX - rect.left) / rect.width * width);
+        let row = (height - 1) - Math.floor((e.clientY - rect.top) / rect.height * height);
+        if (clamp) {
+            col = Math.min(width - 1, Math.max(0, col));
+            row = Math.min(height - 1, Math.max(0, row));
+        } else if (col < 0 || col >= width || row < 0 || row >= height) {
+            return null;
+        }
+        return { col, row };
+    };
+
+    const handleTerrainMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const terrain = terrainRef.current;
+        if (!terrain) return;
+        const hover = cornerAt(e, terrain);
+        if (hover?.col !== hoverCorner?.col || hover?.row !== hoverCorner?.row) setHoverCorner(hover);
+        handleTerrainPaint(e);
+    };
+
+    /**
+     * Applies the active edit mode to `indices` and their symmetric images, honouring the replace mask against the stroke's base terrain.
+     * Returns the edited terrain and the rectangle it may differ in.
+     */
+    const applyTool = (terrain: W3E, base: W3E, indices: number[]): { w3e: W3E; dirty: CornerRect } | null => {
+        const mirrored = SymmetryTools.expand(base, indices, symmetry);
+        const target = replaceMask !== null ? BrushTools.maskByTexture(base, mirrored, replaceMask) : mirrored;
+        if (target.length === 0) return null;
+        const w3e = editCorners(terrain, base, target);
+        return w3e && { w3e, dirty: TerrainRenderer.rectOf(target, terrain.header.width)! };
+    };
+
+    const editCorners = (terrain: W3E, base: W3E, target: number[]): W3E | null => {
+        if (editMode === 'height') {
+            return HeightTools.applyBrush(terrain, base, target, {
+                tool: heightTool,
+                strength: heightStrength,
+                flattenTo
+            });
+        }
+
+        if (editMode === 'flags') {
+            return FlagTools.applyBrush(terrain, target, flagTarget === 'waterHeight'
+                ? { kind: 'waterHeight', waterHeight: waterHeightValue }
+                : { kind: 'flag', flag: flagTarget, value: flagValue });
+        }
+
+        if (editMode === 'variation') {
+            return VariationTools.applyBrush(terrain, target, variationTool === 'set'
+                ? { kind: 'set', variation: variationValue }
+                : { kind: 'randomize', seed: variationSeed });
+        }
+
+        let corners: CornerData | null = null;
+        for (const idx of target) {
+            if (terrain.corners.getField(idx, 'groundTexture') !== selectedTexture) {
+                if (!corners) corners = terrain.corners.clone();
+                corners.setField(idx, 'groundTexture', selectedTexture);
             }
-            if (modified) setTerrain({ ...newTerrain, corners });
         }
+        if (!corners) return null;
+        const painted = { ...terrain, corners };
+        return autoVariation ? VariationTools.randomizeRetextured(terrain, painted, variationSeed) : painted;
+    };
+
+    const handleTerrainMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (!terrain || e.button !== 0) return;
+        if (drawTool === 'select' || drawTool === 'lasso') {
+            // Selecting never edits, so there is no stroke base to record
+            const start = cornerAt(e, terrain, true)!;
+            strokeAnchorRef.current = start;
+            lassoRef.current = [start];
+            setSelection(SelectionTools.rectangleMask(terrain, start, start));
+            return;
+        }
+        if (drawTool === 'paste') {
+            if (!clipboard) {
+                showStatus("Clipboard is empty; copy a selection or load a stamp first", "warn");
+                return;
+            }
+            strokeStartRef.current = terrain;
+            setStrokeBase(terrain);
+            strokeAnchorRef.current = cornerAt(e, terrain, true);
+            strokeDirtyRef.current = null;
+            strokeLabelRef.current = `Paste ${clipboard.width}x${clipboard.height}`;
+            handleTerrainPaint(e);
+            return;
+        }
+        if (editMode === 'texture' && selectedTexture >= terrain.header.tilePalette.length) {
+            showStatus(`Slot ${selectedTexture} is not in this map's palette`, "warn");
+            return;
+        }
+        const start = cornerAt(e, terrain);
+        if (!start) return;
+
+        strokeStartRef.current = terrain;
+        setStrokeBase(terrain);
+        strokeAnchorRef.current = start;
+        strokeDirtyRef.current = null;
+        lastPointRef.current = null;
+        let label: string;
+        if (editMode === 'height') {
+            label = HEIGHT_TOOLS.find(t => t.id === heightTool)!.label + ' Stroke';
+        } else if (editMode === 'flags') {
+            label = flagTarget === 'waterHeight'
+                ? 'Water Height Stroke'
+                : `${flagValue ? 'Set' : 'Clear'} ${CORNER_FLAGS.find(f => f.id === flagTarget)!.label}`;
+        } else if (editMode === 'variation') {
+            label = variationTool === 'set' ? `Set Variation ${variationValue}` : 'Randomize Variations';
+        } else {
+            label = 'Paint Stroke';
+        }
+        strokeLabelRef.current = drawTool === 'brush' ? label : `${DRAW_TOOLS.find(t => t.id === drawTool)!.label}: ${label}`;
+
+        if (drawTool === 'fill') {
+            const painted = applyTool(terrain, terrain, BrushTools.floodFill(terrain, start));
+            if (painted) updateTerrain(painted.w3e, painted.dirty);
+            return;
+        }
+        handleTerrainPaint(e);
+    };
+
+    const handleTerrainPaint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const terrain = terrainRef.current;
+        const base = strokeStartRef.current;
+        const anchor = strokeAnchorRef.current;
+        if (!terrain || !anchor || e.buttons !== 1) return;
+
+        if (drawTool === 'select' || drawTool === 'lasso') {
+            const point = cornerAt(e, terrain, true)!;
+            if (drawTool === 'select') {
+                setSelection(SelectionTools.rectangleMask(terrain, anchor, point));
+                return;
+            }
+            const last = lassoRef.current[lassoRef.current.length - 1];
+            if (last && last.col === point.col && last.row === point.row) return;
+            lassoRef.current.push(point);
+            setSelection(SelectionTools.lassoMask(terrain, lassoRef.current));
+            return;
+        }
+        if (!base || drawTool === 'fill') return;
+
+        if (drawTool === 'paste') {
+            if (!clipboard) return;
+            // Centre the clip on the cursor, re-pasting onto the base like the shape tools
+            const point = cornerAt(e, terrain, true)!;
+            const col = point.col - Math.floor(clipboard.width / 2), row = point.row - Math.floor(clipboard.height / 2);
+            const { width, height } = base.header;
+            const covered: number[] = [];
+            for (let r = Math.max(0, row); r < Math.min(height, row + clipboard.height); r++) {
+                for (let c = Math.max(0, col); c < Math.min(width, col + clipboard.width); c++) covered.push(r * width + c);
+            }
+            strokeDirtyRef.current = TerrainRenderer.union(strokeDirtyRef.current, TerrainRenderer.rectOf(SymmetryTools.expand(base, covered, symmetry), width));
+            try {
+                const pasted = SelectionTools.paste(base, clipboard, col, row);
+                updateTerrain(SymmetryTools.mirrorChanges(base, pasted, symmetry), strokeDirtyRef.current);
+            } catch (err) {
+                updateTerrain(base);
+                strokeStartRef.current = null;
+                setStrokeBase(null);
+                strokeAnchorRef.current = null;
+                showStatus(`Cannot paste: ${err instanceof Error ? err.message : String(err)}`, "warn");
+            }
+            return;
+        }
+
+        if (drawTool === 'brush') {
+            const point = cornerAt(e, terrain);
+            if (!point) return;
+            // Join up with the previous event so fast drags leave no gaps
+            const points = lastPointRef.current ? BrushTools.line(lastPointRef.current, point) : [point];
+            lastPointRef.current = point;
+            const painted = applyTool(terrain, base, BrushTools.stamp(terrain, points, brushShape, brushSize));
+            if (painted) updateTerrain(painted.w3e, painted.dirty);
+            return;
+        }
+
+        // Shape tools redraw from the stroke's base terrain on every move
+        const point = cornerAt(e, terrain, true)!;
+        const filled = shapeFilled && drawTool !== 'line';
+        const outline = drawTool === 'line'
+            ? BrushTools.line(anchor, point)
+            : drawTool === 'rectangle'
+                ? BrushTools.rectangle(anchor, point, filled)
+                : BrushTools.ellipse(anchor, point, filled);
+        const indices = BrushTools.stamp(base, outline, brushShape, filled ? 1 : brushSize);
+        const shaped = applyTool(base, base, indices);
+        strokeDirtyRef.current = TerrainRenderer.union(strokeDirtyRef.current, shaped?.dirty ?? null);
+        if (strokeDirtyRef.current) updateTerrain(shaped?.w3e || base, strokeDirtyRef.current);
     };
 
     return (
@@ -316,7 +1295,7 @@ const App: React.FC = () => {
                 type="file" 
                 ref={w3eInputRef} 
                 className="hidden" 
-                accept=".w3e" 
+                accept=".w3e,.w3x,.w3m" 
                 onChange={handleW3eFileChange} 
             />
             <input 
@@ -326,6 +1305,41 @@ const App: React.FC = () => {
                 accept="image/*" 
                 onChange={handleImageFileChange} 
             />
+            <input
+                type="file"
+                ref={heightmapInputRef}
+                className="hidden"
+                accept="image/*"
+                onChange={handleHeightmapFileChange}
+            />
+            <input
+                type="file"
+                ref={compareInputRef}
+                className="hidden"
+                accept=".w3e"
+                onChange={handleCompareFileChange}
+            />
+            <input
+                type="file"
+                ref={wpmInputRef}
+                className="hidden"
+                accept=".wpm"
+                onChange={handleWpmFileChange}
+            />
+            <input
+                type="file"
+                ref={projectInputRef}
+                className="hidden"
+                accept={PROJECT_EXTENSION}
+                onChange={handleProjectFileChange}
+            />
+            <input
+                type="file"
+                ref={presetInputRef}
+                className="hidden"
+                accept=".json"
+                onChange={handlePresetFileChange}
+            />
 
             <header className="flex items-center justify-between bg-gray-900 p-4 rounded-2xl border border-white/5 shadow-2xl relative shrink-0">
                 <div className="flex flex-col gap-1">
@@ -342,7 +1356,17 @@ const App: React.FC = () => {
                     </div>
                 </div>
 
-                {statusMsg && (
+                {task && (
+                    <div className="absolute top-full mt-3 left-1/2 -translate-x-1/2 px-4 py-2 rounded-xl text-[10px] font-black shadow-2xl border bg-gray-900/90 text-blue-400 border-blue-500/20 backdrop-blur-md z-50 flex items-center gap-3 whitespace-nowrap">
+                        <span>{task.label}</span>
+                        <div className="w-24 h-1 bg-black rounded-full overflow-hidden">
+                            <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${Math.round(task.fraction * 100)}%` }} />
+                        </div>
+                        <span className="font-mono text-gray-400 w-8 text-right">{Math.round(task.fraction * 100)}%</span>
+                        <button onClick={() => processor.cancel()} className="text-gray-500 hover:text-white uppercase tracking-widest text-[8px]">Cancel</button>
+                    </div>
+                )}
+                {statusMsg && !task && (
                     <div className="absolute top-full mt-3 left-1/2 -translate-x-1/2 px-6 py-2 rounded-xl text-[10px] font-black shadow-2xl border bg-blue-500/10 text-blue-400 border-blue-500/20 backdrop-blur-md z-50 animate-in fade-in slide-in-from-top-2">
                         {statusMsg.text}
                     </div>
@@ -358,13 +1382,33 @@ const App: React.FC = () => {
                             <svg className={`w-3 h-3 transition-transform ${showDemos ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M19 9l-7 7-7-7"></path></svg>
                         </button>
                         {showDemos && (
-                            <div className="absolute top-full left-0 mt-2 w-48 bg-gray-900 border border-white/10 rounded-xl shadow-2xl z-[100] p-1 overflow-hidden animate-in fade-in zoom-in-95">
+                            <div className="absolute top-full left-0 mt-2 w-64 bg-gray-900 border border-white/10 rounded-xl shadow-2xl z-[100] p-1 overflow-hidden animate-in fade-in zoom-in-95">
                                 <button
-                                    onClick={createBlankMap}
-                                    className="w-full text-left px-3 py-2 text-[10px] font-black text-emerald-400 hover:text-emerald-300 hover:bg-white/5 rounded-lg transition-colors uppercase tracking-tight border-b border-white/5 mb-1"
+                                    onClick={() => openMapSizeDialog('new')}
+                                    className="w-full text-left px-3 py-2 text-[10px] font-black text-emerald-400 hover:text-emerald-300 hover:bg-white/5 rounded-lg transition-colors uppercase tracking-tight"
                                 >
                                     + Create Blank Map
                                 </button>
+                                <button
+                                    onClick={() => openMapSizeDialog('extend')}
+                                    disabled={!terrain}
+                                    className="w-full text-left px-3 py-2 text-[10px] font-black text-amber-400 hover:text-amber-300 hover:bg-white/5 rounded-lg transition-colors uppercase tracking-tight border-b border-white/5 mb-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                                >
+                                    ⤢ Resize Map
+                                </button>
+                                <button
+                                    onClick={() => { projectInputRef.current?.click(); setShowDemos(false); }}
+                                    className="w-full text-left px-3 py-2 text-[10px] font-black text-sky-400 hover:text-sky-300 hover:bg-white/5 rounded-lg transition-colors uppercase tracking-tight"
+                                >
+                                    ↥ Open Project
+                                </button>
+                                <button
+                                    onClick={saveProject}
+                                    disabled={!terrain && !imageBlob}
+                                    className="w-full text-left px-3 py-2 text-[10px] font-black text-sky-400 hover:text-sky-300 hover:bg-white/5 rounded-lg transition-colors uppercase tracking-tight border-b border-white/5 mb-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                                >
+                                    ↧ Save Project
+                                </button>
                                 {DEMO_FILES.map((demo) => (
                                     <button
                                         key={demo.path}
@@ -374,6 +1418,32 @@ const App: React.FC = () => {
                                         {demo.name}
                                     </button>
                                 ))}
+                                {recentSessions.length > 0 && (
+                                    <div className="border-t border-white/5 mt-1 pt-1">
+                                        <div className="px-3 py-1 text-[8px] font-black text-gray-600 uppercase tracking-widest">Recent Sessions</div>
+                                        {recentSessions.map(session => (
+                                            <div key={session.id} className="flex items-center gap-1 rounded-lg hover:bg-white/5">
+                                                <button
+                                                    onClick={() => { restoreSession(session.id); setShowDemos(false); }}
+                                                    className="flex-1 min-w-0 text-left px-3 py-1.5"
+                                                >
+                                                    <div className={`text-[10px] font-bold truncate ${session.id === sessionIdRef.current ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}>{session.name}</div>
+                                                    <div className="text-[8px] font-mono text-gray-600 truncate">
+                                                        {session.width ? `${session.width}x${session.height}` : 'No map'}
+                                                        {session.imageName ? ` · ${session.imageName}` : ''} · {new Date(session.updatedAt).toLocaleString()}
+                                                    </div>
+                                                </button>
+                                                <button
+                                                    onClick={() => forgetSession(session.id)}
+                                                    title="Remove from recent sessions"
+                                                    className="px-2 text-gray-600 hover:text-red-400 text-xs"
+                                                >
+                                                    ×
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                         )}
                     </div>
@@ -390,21 +1460,72 @@ const App: React.FC = () => {
                     >
                         Import PNG
                     </button>
+                    {terrain && (
+                        <button
+                            onClick={() => heightmapInputRef.current?.click()}
+                            className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all"
+                        >
+                            Import Heightmap
+                        </button>
+                    )}
+                    {terrain && (
+                        <button
+                            onClick={() => comparison ? setShowDiffDialog(true) : compareInputRef.current?.click()}
+                            className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all"
+                        >
+                            {comparison ? `Diff: ${comparison.fileName}` : 'Compare'}
+                        </button>
+                    )}
+                    {terrain && (
+                        <button
+                            onClick={() => setShowGenerator(true)}
+                            className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all"
+                        >
+                            Generate
+                        </button>
+                    )}
+                    {terrain && (
+                        <button
+                            onClick={() => wpmInputRef.current?.click()}
+                            className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all"
+                        >
+                            Import WPM
+                        </button>
+                    )}
                     
+                    {mappingTargets.length > 0 && (
+                        <button
+                            onClick={saveMapping}
+                            className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all"
+                            title="Download the active slot colors for the command line tool"
+                        >
+                            Save Mapping
+                        </button>
+                    )}
                     {terrain && sourceImage && (
-                        <button onClick={applyImageToTerrain} className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-emerald-600/20 transition-all">Apply Mapping</button>
+                        <button onClick={openMappingDialog} className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shadow-emerald-600/20 transition-all">Apply Mapping</button>
                     )}
                     
                     {terrain && (
-                        <button onClick={async () => {
-                            const encoded = TerrainUtil.encodeW3e(terrain);
-                            const blob = new Blob([encoded], { type: 'application/octet-stream' });
-                            const url = URL.createObjectURL(blob);
-                            const a = document.createElement('a');
-                            a.href = url;
-                            a.download = 'war3map.w3e';
-                            a.click();
-                        }} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">Export</button>
+                        <button onClick={validateTerrain} className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all">Validate</button>
+                    )}
+
+                    {terrain && (
+                        <button onClick={() => setShowLayerExport(true)} className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all">Export PNG</button>
+                    )}
+
+                    {terrain && pathing && !archive && (
+                        <button onClick={exportWpm} className="bg-white/5 hover:bg-white/10 text-gray-300 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest transition-all">Export WPM</button>
+                    )}
+
+                    {terrain && (
+                        <button
+                            onClick={exportW3e}
+                            title={archive ? `Writes ${pathing ? `${W3E_ARCHIVE_PATH} and ${WPM_ARCHIVE_PATH}` : W3E_ARCHIVE_PATH} into a copy of ${archive.fileName}` : undefined}
+                            className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                        >
+                            {archive ? 'Export Map' : 'Export'}
+                        </button>
                     )}
                 </div>
             </header>
@@ -414,21 +1535,66 @@ const App: React.FC = () => {
                     <div className="flex-1 bg-gray-900 rounded-3xl border border-white/5 shadow-inner flex flex-col overflow-hidden relative">
                         <div className="p-3 border-b border-white/5 flex justify-between items-center bg-black/20 shrink-0">
                             <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Terrain Preview</span>
-                            {terrain && <span className="text-[8px] font-mono text-gray-600">{terrain.header.width}x{terrain.header.height}</span>}
+                            <div className="flex items-center gap-3">
+                                <div className="flex gap-1">
+                                    {(['texture', 'height', 'contour'] as ViewMode[]).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setViewMode(mode)}
+                                            className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest transition-colors ${viewMode === mode ? 'bg-white/10 text-white' : 'text-gray-600 hover:text-gray-300'}`}
+                                        >
+                                            {mode}
+                                        </button>
+                                    ))}
+                                </div>
+                                <button
+                                    onClick={() => setShowGrid(!showGrid)}
+                                    className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest transition-colors ${showGrid ? 'bg-white/10 text-white' : 'text-gray-600 hover:text-gray-300'}`}
+                                >
+                                    Grid
+                                </button>
+                                {terrain && (
+                                    <div className="flex items-center gap-1">
+                                        <select
+                                            value={pathingLayer}
+                                            onChange={(e) => setPathingLayer(e.target.value as PathingLayer | 'off')}
+                                            className="bg-black/30 border border-white/10 rounded-md px-1 py-0.5 text-[8px] font-black uppercase tracking-widest text-gray-400"
+                                        >
+                                            <option value="off">Pathing Off</option>
+                                            {PATHING_LAYERS.map(layer => <option key={layer.id} value={layer.id}>{layer.label}</option>)}
+                                        </select>
+                                        <button
+                                            onClick={regeneratePathing}
+                                            title={pathing ? "Recompute pathing from the terrain, keeping doodad blockers" : "Build a pathing map from the terrain"}
+                                            className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest transition-colors ${pathing && pathing.source !== terrain ? 'bg-amber-500/20 text-amber-300' : 'text-gray-600 hover:text-gray-300'}`}
+                                        >
+                                            {pathing && pathing.source !== terrain ? 'Stale · Regen' : 'Regen'}
+                                        </button>
+                                    </div>
+                                )}
+                                {terrain && <span className="text-[8px] font-mono text-gray-600">{tilesetName} · {terrain.header.width}x{terrain.header.height}</span>}
+                            </div>
                         </div>
-                        <div className="flex-1 overflow-hidden p-4 flex items-center justify-center bg-black/10">
+                        <div className="flex-1 overflow-hidden relative flex items-center justify-center bg-black/10">
                             {terrain ? (
-                                <canvas 
-                                    ref={canvasRef} 
-                                    onMouseDown={handleTerrainPaint} 
-                                    onMouseMove={handleTerrainPaint} 
-                                    className="max-w-full max-h-full shadow-2xl border border-white/10 object-contain bg-black" 
-                                    style={{ imageRendering: 'pixelated' }} 
+                                <TerrainViewport
+                                    canvasRef={canvasRef}
+                                    overlayRef={overlayRef}
+                                    contentWidth={terrain.header.width * CELL_SIZE}
+                                    contentHeight={terrain.header.height * CELL_SIZE}
+                                    onMouseDown={handleTerrainMouseDown}
+                                    onMouseMove={handleTerrainMouseMove}
+                                    onMouseLeave={() => setHoverCorner(null)}
                                 />
                             ) : (
                                 <div className="text-gray-800 text-[10px] font-black uppercase tracking-widest animate-pulse">Waiting for W3E...</div>
                             )}
                         </div>
+                        {terrain && (
+                            <div className="px-3 py-1.5 border-t border-white/5 bg-black/20 shrink-0 text-[8px] font-mono text-gray-500 truncate">
+                                {hoverInfo || 'Hover the map to inspect a corner · wheel to zoom, right-drag to pan'}
+                            </div>
+                        )}
                     </div>
 
                     <div className="flex-1 bg-gray-900 rounded-3xl border border-white/5 shadow-inner flex flex-col overflow-hidden relative">
@@ -453,12 +1619,49 @@ const App: React.FC = () => {
                 <aside className="w-80 shrink-0 flex flex-col gap-4 overflow-hidden">
                     <div className="bg-gray-900 rounded-3xl border border-white/5 p-6 shadow-2xl flex flex-col h-full overflow-hidden">
                         <header className="mb-4 shrink-0">
-                            <h2 className="text-[9px] font-black text-gray-500 uppercase tracking-[0.3em]">Texture Palette</h2>
+                            <div className="flex justify-between items-center">
+                                <h2 className="text-[9px] font-black text-gray-500 uppercase tracking-[0.3em]">Texture Palette</h2>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => presetInputRef.current?.click()}
+                                        title="Apply slot colors from a palette preset, matched by tile ID"
+                                        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase tracking-widest text-gray-400"
+                                    >
+                                        Load Preset
+                                    </button>
+                                    <button
+                                        onClick={savePreset}
+                                        title="Save the active slot colors as a preset keyed by tile ID"
+                                        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase tracking-widest text-gray-400"
+                                    >
+                                        Save Preset
+                                    </button>
+                                    {terrain && (
+                                        <button
+                                            onClick={() => setShowPaletteManager(true)}
+                                            className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase tracking-widest text-gray-400"
+                                        >
+                                            Manage
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="flex gap-1 mt-3">
+                                {EDIT_MODES.map(mode => (
+                                    <button
+                                        key={mode.id}
+                                        onClick={() => setEditMode(mode.id)}
+                                        className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${editMode === mode.id ? 'bg-blue-600 text-white' : 'bg-white/5 text-gray-500 hover:text-gray-300'}`}
+                                    >
+                                        {mode.label}
+                                    </button>
+                                ))}
+                            </div>
                             <div className="h-px w-full bg-white/5 mt-3"></div>
                         </header>
                         
                         <div className="flex-1 overflow-y-auto custom-scrollbar pr-1 space-y-2">
-                            {mappings.map((m, i) => (
+                            {mappings.slice(0, slotCount).map((m, i) => (
                                 <div 
                                     key={i} 
                                     onClick={() => setSelectedTexture(i)}
@@ -474,7 +1677,7 @@ const App: React.FC = () => {
                                             const newMap = [...mappings];
                                             const isChecked = e.target.checked;
                                             newMap[i].active = isChecked;
-                                            newMap[i].color = INITIAL_PALETTE[i].color;
+                                            newMap[i].color = getSlotColor(terrain?.header.tilePalette, i);
                                             setMappings(newMap);
                                             showStatus(`Slot ${i} reset to default`);
                                         }} 
@@ -484,7 +1687,7 @@ const App: React.FC = () => {
                                     <div className="relative shrink-0">
                                         <div 
                                             className="w-8 h-8 rounded-lg border border-white/10 shadow-inner overflow-hidden" 
-                                            style={{ backgroundColor: m.active ? m.color : INITIAL_PALETTE[i].color }}
+                                            style={{ backgroundColor: m.active ? m.color : getSlotColor(terrain?.header.tilePalette, i) }}
                                         >
                                             <div className="w-full h-full cursor-default" />
                                         </div>
@@ -492,7 +1695,19 @@ const App: React.FC = () => {
 
                                     <div className="flex flex-col flex-1 min-w-0">
                                         <div className="flex justify-between items-center">
-                                            <span className="text-[8px] font-black text-gray-400 uppercase">Slot {i} - {INITIAL_PALETTE[i].label}</span>
+                                            <span className="text-[8px] font-black text-gray-400 uppercase truncate">
+                                                Slot {i} - {terrain
+                                                    ? TilesetCatalog.getGroundTile(terrain.header.tilePalette[i])?.name ?? 'Unknown Tile'
+                                                    : INITIAL_PALETTE[i].label}
+                                            </span>
+                                            {foreignSlots.has(i) && (
+                                                <span
+                                                    className="text-[8px] font-black text-amber-400 shrink-0"
+                                                    title={`Not part of the ${tilesetName} tileset`}
+                                                >
+                                                    ⚠
+                                                </span>
+                                            )}
                                         </div>
                                         <span className={`text-[10px] font-mono font-bold truncate uppercase tracking-tighter ${m.active ? 'text-blue-400' : 'text-gray-500 opacity-50'}`}>
                                             {terrain?.header.tilePalette[i] || m.textureId}
@@ -513,11 +1728,330 @@ const App: React.FC = () => {
                             ))}
                         </div>
 
+                        {editMode === 'height' && (
+                            <div className="mt-4 pt-4 border-t border-white/5 shrink-0 space-y-3">
+                                <div className="grid grid-cols-4 gap-1">
+                                    {HEIGHT_TOOLS.map(tool => (
+                                        <button
+                                            key={tool.id}
+                                            onClick={() => setHeightTool(tool.id)}
+                                            className={`py-1.5 rounded-lg text-[8px] font-black uppercase tracking-tight transition-colors ${heightTool === tool.id ? 'bg-white/15 text-white' : 'bg-black/20 text-gray-500 hover:text-gray-300'}`}
+                                        >
+                                            {tool.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {['raise', 'lower', 'smooth', 'noise'].includes(heightTool) && (
+                                    <div>
+                                        <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Strength: {heightStrength}</span>
+                                        <input type="range" min="1" max="128" value={heightStrength} onChange={(e) => setHeightStrength(parseInt(e.target.value))} className="w-full h-1 bg-black rounded-lg appearance-none cursor-pointer accent-blue-500" />
+                                    </div>
+                                )}
+                                {heightTool === 'flatten' && (
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Target Height</span>
+                                        <input
+                                            type="number"
+                                            step="0.25"
+                                            value={flattenTo}
+                                            onChange={(e) => setFlattenTo(parseFloat(e.target.value) || 0)}
+                                            className="w-20 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {editMode === 'flags' && (
+                            <div className="mt-4 pt-4 border-t border-white/5 shrink-0 space-y-1">
+                                {CORNER_FLAGS.map(flag => (
+                                    <div
+                                        key={flag.id}
+                                        onClick={() => setFlagTarget(flag.id)}
+                                        className={`flex items-center gap-2 px-2 py-1 rounded-lg cursor-pointer border ${flagTarget === flag.id ? 'bg-white/10 border-white/20' : 'border-transparent hover:bg-white/5'}`}
+                                    >
+                                        <div className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: flag.color }} />
+                                        <span className="flex-1 text-[9px] font-black uppercase tracking-widest text-gray-400">{flag.label}</span>
+                                        <label className="flex items-center gap-1 text-[8px] font-bold uppercase text-gray-600" onClick={(e) => e.stopPropagation()}>
+                                            <input
+                                                type="checkbox"
+                                                checked={overlayFlags.includes(flag.id)}
+                                                onChange={(e) => setOverlayFlags(e.target.checked
+                                                    ? [...overlayFlags, flag.id]
+                                                    : overlayFlags.filter(f => f !== flag.id))}
+                                                className="w-3 h-3 cursor-pointer"
+                                            />
+                                            Show
+                                        </label>
+                                    </div>
+                                ))}
+                                <div
+                                    onClick={() => setFlagTarget('waterHeight')}
+                                    className={`flex items-center justify-between gap-2 px-2 py-1 rounded-lg cursor-pointer border ${flagTarget === 'waterHeight' ? 'bg-white/10 border-white/20' : 'border-transparent hover:bg-white/5'}`}
+                                >
+                                    <span className="text-[9px] font-black uppercase tracking-widest text-gray-400">Water Height</span>
+                                    <input
+                                        type="number"
+                                        step="0.25"
+                                        value={waterHeightValue}
+                                        onClick={(e) => e.stopPropagation()}
+                                        onChange={(e) => setWaterHeightValue(parseFloat(e.target.value) || 0)}
+                                        className="w-20 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                    />
+                                </div>
+                                {flagTarget !== 'waterHeight' && (
+                                    <div className="flex gap-1 pt-2">
+                                        {(flagTarget === 'mapEdge' ? [0, 1, 2, 3] : [1, 0]).map(v => (
+                                            <button
+                                                key={v}
+                                                onClick={() => setFlagValue(v)}
+                                                className={`flex-1 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest ${flagValue === v ? 'bg-white/15 text-white' : 'bg-black/20 text-gray-500 hover:text-gray-300'}`}
+                                            >
+                                                {flagTarget === 'mapEdge' ? v : v ? 'Set' : 'Clear'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {editMode === 'variation' && (
+                            <div className="mt-4 pt-4 border-t border-white/5 shrink-0 space-y-3">
+                                <div className="flex gap-1">
+                                    {(['randomize', 'set'] as const).map(tool => (
+                                        <button
+                                            key={tool}
+                                            onClick={() => setVariationTool(tool)}
+                                            title={tool === 'randomize' ? RANDOM_VARIATION_HINT : undefined}
+                                            className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-colors ${variationTool === tool ? 'bg-white/15 text-white' : 'bg-black/20 text-gray-500 hover:text-gray-300'}`}
+                                        >
+                                            {tool === 'set' ? 'Set' : 'Randomize'}
+                                        </button>
+                                    ))}
+                                </div>
+                                {variationTool === 'set' && (
+                                    <div>
+                                        <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Variation: {variationValue}</span>
+                                        <input type="range" min="0" max={GROUND_VARIATION_MAX} value={variationValue} onChange={(e) => setVariationValue(parseInt(e.target.value))} className="w-full h-1 bg-black rounded-lg appearance-none cursor-pointer accent-blue-500" />
+                                    </div>
+                                )}
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Seed</span>
+                                    <div className="flex gap-1">
+                                        <input
+                                            type="number"
+                                            value={variationSeed}
+                                            onChange={(e) => changeVariationSeed(parseInt(e.target.value) || 0)}
+                                            className="w-24 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                        />
+                                        <button
+                                            onClick={() => changeVariationSeed(Math.floor(Math.random() * 0xFFFFFFFF))}
+                                            className="px-2 rounded-md bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase tracking-widest text-gray-400"
+                                        >
+                                            New
+                                        </button>
+                                    </div>
+                                </div>
+                                <label title={RANDOM_VARIATION_HINT} className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest text-gray-500">
+                                    <input type="checkbox" checked={autoVariation} onChange={(e) => setAutoVariation(e.target.checked)} className="w-3 h-3 cursor-pointer" />
+                                    Randomize on texture paint &amp; mapping
+                                </label>
+                                <button
+                                    onClick={randomizeAllVariations}
+                                    disabled={!terrain}
+                                    title={RANDOM_VARIATION_HINT}
+                                    className="w-full py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase tracking-widest text-gray-400 disabled:opacity-30"
+                                >
+                                    Randomize Whole Map
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="mt-4 pt-4 border-t border-white/5 shrink-0 space-y-2">
+                            <div className="grid grid-cols-4 gap-1">
+                                {DRAW_TOOLS.map(tool => (
+                                    <button
+                                        key={tool.id}
+                                        onClick={() => setDrawTool(tool.id)}
+                                        className={`py-1.5 rounded-lg text-[8px] font-black uppercase tracking-tight transition-colors ${drawTool === tool.id ? 'bg-white/15 text-white' : 'bg-black/20 text-gray-500 hover:text-gray-300'}`}
+                                    >
+                                        {tool.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Brush Size: {brushSize}</span>
+                                <div className="flex gap-1">
+                                    {(['square', 'circle'] as BrushShape[]).map(shape => (
+                                        <button
+                                            key={shape}
+                                            onClick={() => setBrushShape(shape)}
+                                            className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest transition-colors ${brushShape === shape ? 'bg-white/10 text-white' : 'text-gray-600 hover:text-gray-300'}`}
+                                        >
+                                            {shape}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <input type="range" min="1" max={MAX_BRUSH_SIZE} value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value))} className="w-full h-1 bg-black rounded-lg appearance-none cursor-pointer accent-blue-500" />
+                            {(drawTool === 'rectangle' || drawTool === 'ellipse') && (
+                                <label className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest text-gray-500">
+                                    <input type="checkbox" checked={shapeFilled} onChange={(e) => setShapeFilled(e.target.checked)} className="w-3 h-3 cursor-pointer" />
+                                    Filled
+                                </label>
+                            )}
+                            <label className="flex items-center justify-between gap-2">
+                                <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Only Replace</span>
+                                <select
+                                    value={replaceMask ?? ''}
+                                    onChange={(e) => setReplaceMask(e.target.value === '' ? null : parseInt(e.target.value))}
+                                    className="w-32 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                >
+                                    <option value="">Any texture</option>
+                                    {terrain?.header.tilePalette.map((tile, i) => (
+                                        <option key={i} value={i}>{i}: {tile}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Symmetry</span>
+                                <div className="flex gap-1">
+                                    <select
+                                        value={symmetry}
+                                        onChange={(e) => setSymmetry(e.target.value as SymmetryMode)}
+                                        className="w-32 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                    >
+                                        {SYMMETRY_MODES.map(mode => (
+                                            <option key={mode.id} value={mode.id}>{mode.label}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={checkSymmetry}
+                                        disabled={!terrain || symmetry === 'none'}
+                                        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                        title="List corners that break the symmetry"
+                                    >
+                                        Check
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="mt-4 pt-4 border-t border-white/5 shrink-0 space-y-2">
+                            <div className="flex justify-between items-center">
+                                <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">
+                                    Selection: {selection ? selection.reduce((n, v) => n + v, 0) : 0}
+                                </span>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={copySelection}
+                                        disabled={!selection}
+                                        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                    >
+                                        Copy
+                                    </button>
+                                    <button
+                                        onClick={() => setSelection(null)}
+                                        disabled={!selection}
+                                        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                    >
+                                        Clear
+                                    </button>
+                                </div>
+                            </div>
+                            {clipboard && (
+                                <>
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Clipboard: {clipboard.width}x{clipboard.height}</span>
+                                        <div className="flex gap-1">
+                                            {CLIP_TRANSFORMS.map(t => (
+                                                <button
+                                                    key={t.id}
+                                                    onClick={() => transformClipboard(t.id)}
+                                                    title={t.title}
+                                                    className="w-6 py-0.5 rounded-md bg-white/5 hover:bg-white/10 text-[10px] text-gray-400"
+                                                >
+                                                    {t.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-1">
+                                        <input
+                                            type="text"
+                                            value={stampName}
+                                            onChange={(e) => setStampName(e.target.value)}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') saveStamp(); }}
+                                            placeholder="Stamp name"
+                                            className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                        />
+                                        <button
+                                            onClick={saveStamp}
+                                            disabled={!stampName.trim()}
+                                            className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                        >
+                                            Save Stamp
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+                            {stamps.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                    {stamps.map(stamp => (
+                                        <span key={stamp.name} className="flex items-center rounded-md bg-black/20 text-[9px] font-mono text-gray-400">
+                                            <button onClick={() => loadStamp(stamp)} className="pl-2 pr-1 py-0.5 hover:text-white" title={`${stamp.clip.width}x${stamp.clip.height}`}>
+                                                {stamp.name}
+                                            </button>
+                                            <button onClick={() => saveStamps(stamps.filter(s => s !== stamp))} className="pr-2 py-0.5 text-gray-600 hover:text-red-400" title="Delete stamp">
+                                                ×
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
                         <div className="mt-4 pt-4 border-t border-white/5 shrink-0">
                             <div className="flex justify-between items-center mb-2">
-                                <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Brush Size: {brushSize}</span>
+                                <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">History</span>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={undo}
+                                        disabled={historyState.position === 0}
+                                        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                        title="Undo (Ctrl+Z)"
+                                    >
+                                        Undo
+                                    </button>
+                                    <button
+                                        onClick={redo}
+                                        disabled={historyState.position === historyState.entries.length}
+                                        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                        title="Redo (Ctrl+Shift+Z)"
+                                    >
+                                        Redo
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-0.5">
+                                <button
+                                    onClick={() => jumpToHistory(0)}
+                                    className={`w-full text-left px-2 py-1 rounded-md text-[9px] font-mono truncate ${historyState.position === 0 ? 'bg-white/10 text-white' : 'text-gray-500 hover:bg-white/5'}`}
+                                >
+                                    (Initial State)
+                                </button>
+                                {historyState.entries.map((entry, i) => (
+                                    <button
+                                        key={i}
+                                        onClick={() => jumpToHistory(i + 1)}
+                                        className={`w-full flex justify-between gap-2 text-left px-2 py-1 rounded-md text-[9px] font-mono
+                                            ${historyState.position === i + 1 ? 'bg-white/10 text-white' : i + 1 > historyState.position ? 'text-gray-700 hover:bg-white/5' : 'text-gray-500 hover:bg-white/5'}`}
+                                    >
+                                        <span className="truncate">{entry.label}</span>
+                                        <span className="shrink-0 opacity-50">{entry.size}</span>
+                                    </button>
+                                ))}
                             </div>
-                            <input type="range" min="1" max="9" step="2" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value))} className="w-full h-1 bg-black rounded-lg appearance-none cursor-pointer accent-blue-500" />
                         </div>
                     </div>
                 </aside>
@@ -528,6 +2062,90 @@ const App: React.FC = () => {
                 <div className="text-[7px] font-black uppercase tracking-[0.4em]">V4.2 // Demo Path Correction</div>
             </footer>
 
+            {report && (
+                <DiagnosticsDialog report={report} onClose={() => setReport(null)} />
+            )}
+
+            {mapSizeMode && (
+                <MapSizeDialog
+                    terrain={terrain}
+                    initialMode={mapSizeMode}
+                    variationSeed={variationSeed}
+                    onApply={applyMapSize}
+                    onError={(message) => showStatus(message, "warn")}
+                    onClose={() => setMapSizeMode(null)}
+                />
+            )}
+
+            {showMappingDialog && terrain && sourceImage && (
+                <MappingDialog
+                    terrain={terrain}
+                    image={sourceImage}
+                    targets={mappingTargets}
+                    slotColors={slotColors}
+                    options={mappingOptions}
+                    onOptionsChange={setMappingOptions}
+                    onWeightChange={setSlotWeight}
+                    onApply={applyMapping}
+                    onError={(message) => showStatus(message, "warn")}
+                    onClose={() => setShowMappingDialog(false)}
+                />
+            )}
+
+            {heightmap && terrain && (
+                <HeightmapDialog
+                    terrain={terrain}
+                    samples={heightmap.samples}
+                    fileName={heightmap.fileName}
+                    onApply={(label, next) => { commitTerrain(label, next); showStatus("Heightmap applied"); }}
+                    onError={(message) => showStatus(message, "warn")}
+                    onClose={() => setHeightmap(null)}
+                />
+            )}
+
+            {showDiffDialog && comparison && diffReport && (
+                <DiffDialog
+                    fileName={comparison.fileName}
+                    report={diffReport}
+                    heatmapField={diffHeatmapField}
+                    onHeatmapFieldChange={setDiffHeatmapField}
+                    showHeatmap={showDiffHeatmap}
+                    onShowHeatmapChange={setShowDiffHeatmap}
+                    selectionSize={selection ? selection.reduce((n, v) => n + v, 0) : 0}
+                    onMerge={mergeComparison}
+                    onClear={() => { setComparison(null); setShowDiffDialog(false); }}
+                    onClose={() => setShowDiffDialog(false)}
+                />
+            )}
+            {showGenerator && terrain && (
+                <GeneratorDialog
+                    terrain={terrain}
+                    slotColors={slotColors}
+                    onApply={(label, next) => { commitTerrain(label, next); showStatus("Terrain generated"); }}
+                    onError={(message) => showStatus(message, "warn")}
+                    onClose={() => setShowGenerator(false)}
+                />
+            )}
+            {showLayerExport && terrain && (
+                <LayerExportDialog
+                    terrain={terrain}
+                    slotColors={slotColors}
+                    baseName={lastW3eFile === 'None' ? 'terrain' : lastW3eFile.replace(/\.[^.]*$/, '')}
+                    onDownload={(fileName, bytes) => downloadFile(fileName, bytes, 'image/png')}
+                    onError={(message) => showStatus(message, "warn")}
+                    onClose={() => setShowLayerExport(false)}
+                />
+            )}
+
+            {showPaletteManager && terrain && (
+                <PaletteManager
+                    terrain={terrain}
+                    onApply={applyPaletteEdit}
+                    onError={(message) => showStatus(message, "warn")}
+                    onClose={() => setShowPaletteManager(false)}
+                />
+            )}
+
             <style>{`
                 .custom-scrollbar::-webkit-scrollbar { width: 3px; }
                 .custom-scrollbar::-webkit-scrollbar-track { background: transparent; }
@@ -2,9 +2,12 @@
 /**
  * A bit-level stream for reading and writing binary data.
  * Adapted for browser environments using Uint8Array and DataView.
+ * Whole-byte reads and writes at a byte boundary go straight through the DataView;
+ * only unaligned access falls back to the bit loop.
  */
 export default class BitStream {
     private buffer: Uint8Array;
+    private view: DataView;
     private bitPosition: number; 
     private isWriting: boolean;
 
@@ -18,6 +21,12 @@ export default class BitStream {
             this.bitPosition = 0;
             this.isWriting = true;
         }
+        this.view = new DataView(this.buffer.buffer, this.buffer.byteOffset, this.buffer.byteLength);
+    }
+
+    /** True when `bytes` whole bytes can be read at a byte boundary without running off the end. */
+    private _canReadAligned(bytes: number): boolean {
+        return (this.bitPosition & 7) === 0 && (this.bitPosition >> 3) + bytes <= this.buffer.length;
     }
 
     private _ensureCapacity(bitsToWrite: number): void {
@@ -29,6 +38,7 @@ export default class BitStream {
             const newBuffer = new Uint8Array(newLength);
             newBuffer.set(this.buffer);
             this.buffer = newBuffer;
+            this.view = new DataView(newBuffer.buffer);
         }
     }
 
@@ -52,6 +62,11 @@ export default class BitStream {
 
     writeUBits(value: number, bits: number): void {
         this._ensureCapacity(bits);
+        if (bits === 8 && (this.bitPosition & 7) === 0) {
+            this.buffer[this.bitPosition >> 3] = value;
+            this.bitPosition += 8;
+            return;
+        }
         for (let i = bits - 1; i >= 0; i--) {
             const byteIndex = Math.floor(this.bitPosition / 8);
             const bitInByteIndex = this.bitPosition % 8;
@@ -62,7 +77,14 @@ export default class BitStream {
         }
     }
 
-    readUInt8(changeOffset = true): number { return this.readUBits(8, changeOffset); }
+    readUInt8(changeOffset = true): number {
+        if (this._canReadAligned(1)) {
+            const value = this.buffer[this.bitPosition >> 3];
+            if (changeOffset) this.bitPosition += 8;
+            return value;
+        }
+        return this.readUBits(8, changeOffset);
+    }
     writeUInt8(value: number): void { this.writeUBits(value, 8); }
 
     readInt8(changeOffset = true): number {
@@ -72,12 +94,23 @@ export default class BitStream {
     writeInt8(value: number): void { this.writeUBits(value, 8); }
 
     readUInt16(changeOffset = true): number {
+        if (this._canReadAligned(2)) {
+            const value = this.view.getUint16(this.bitPosition >> 3, true);
+            if (changeOffset) this.bitPosition += 16;
+            return value;
+        }
         const byte0 = this.readUBits(8);
         const byte1 = this.readUBits(8);
         if (!changeOffset) this.bitPosition -= 16;
         return byte0 | (byte1 << 8);
     }
     writeUInt16(value: number): void {
+        if ((this.bitPosition & 7) === 0) {
+            this._ensureCapacity(16);
+            this.view.setUint16(this.bitPosition >> 3, value & 0xFFFF, true);
+            this.bitPosition += 16;
+            return;
+        }
         this.writeUBits(value & 0xFF, 8);
         this.writeUBits((value >> 8) & 0xFF, 8);
     }
@@ -89,6 +122,11 @@ export default class BitStream {
     writeInt16(value: number): void { this.writeUInt16(value); }
 
     readUInt32(changeOffset = true): number {
+        if (this._canReadAligned(4)) {
+            const value = this.view.getUint32(this.bitPosition >> 3, true);
+            if (changeOffset) this.bitPosition += 32;
+            return value;
+        }
         const b0 = this.readUBits(8);
         const b1 = this.readUBits(8);
         const b2 = this.readUBits(8);
@@ -97,6 +135,12 @@ export default class BitStream {
         return (b0 | (b1 << 8) | (b2 << 16) | (b3 << 24)) >>> 0;
     }
     writeUInt32(value: number): void {
+        if ((this.bitPosition & 7) === 0) {
+            this._ensureCapacity(32);
+            this.view.setUint32(this.bitPosition >> 3, value >>> 0, true);
+            this.bitPosition += 32;
+            return;
+        }
         this.writeUBits(value & 0xFF, 8);
         this.writeUBits((value >> 8) & 0xFF, 8);
         this.writeUBits((value >> 16) & 0xFF, 8);
@@ -104,12 +148,23 @@ export default class BitStream {
     }
 
     readFloat32(changeOffset = true): number {
+        if (this._canReadAligned(4)) {
+            const value = this.view.getFloat32(this.bitPosition >> 3, true);
+            if (changeOffset) this.bitPosition += 32;
+            return value;
+        }
         const temp = new Uint8Array(4);
         for (let i = 0; i < 4; i++) temp[i] = this.readUBits(8);
         if (!changeOffset) this.bitPosition -= 32;
         return new DataView(temp.buffer).getFloat32(0, true);
     }
     writeFloat32(value: number): void {
+        if ((this.bitPosition & 7) === 0) {
+            this._ensureCapacity(32);
+            this.view.setFloat32(this.bitPosition >> 3, value, true);
+            this.bitPosition += 32;
+            return;
+        }
         const temp = new Uint8Array(4);
         new DataView(temp.buffer).setFloat32(0, value, true);
         for (let i = 0; i < 4; i++) this.writeUBits(temp[i], 8);
@@ -143,6 +198,39 @@ export default class BitStream {
         for (const str of arr) this.writeString32(str);
     }
 
+    /** Reads up to `length` bytes; the result is shorter if the buffer ends first. */
+    readBytes(length: number): Uint8Array {
+        if (this.isWriting) throw new Error("Cannot read in write mode.");
+        if ((this.bitPosition & 7) === 0) {
+            const start = this.bitPosition >> 3;
+            const bytes = this.buffer.slice(start, start + length);
+            this.bitPosition += bytes.length * 8;
+            return bytes;
+        }
+        const bytes = new Uint8Array(Math.min(length, this.getRemainingBytes()));
+        for (let i = 0; i < bytes.length; i++) bytes[i] = this.readUBits(8);
+        return bytes;
+    }
+
+    writeBytes(bytes: Uint8Array): void {
+        if ((this.bitPosition & 7) === 0) {
+            this._ensureCapacity(bytes.length * 8);
+            this.buffer.set(bytes, this.bitPosition >> 3);
+            this.bitPosition += bytes.length * 8;
+            return;
+        }
+        for (const byte of bytes) this.writeUBits(byte, 8);
+    }
+
+    getBytePosition(): number {
+        return Math.floor(this.bitPosition / 8);
+    }
+
+    getRemainingBytes(): number {
+        if (this.isWriting) throw new Error("Cannot measure remaining bytes in write mode.");
+        return Math.max(0, this.buffer.length - Math.ceil(this.bitPosition / 8));
+    }
+
     getBuffer(): Uint8Array {
         if (!this.isWriting) throw new Error("Cannot get buffer in read mode.");
         return this.buffer.slice(0, Math.ceil(this.bitPosition / 8));
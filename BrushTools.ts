@@ -0,0 +1,148 @@
+import { W3E } from "./TerrainUtil";
+import { CornerField } from "./CornerData";
+
+export type BrushShape = 'square' | 'circle';
+export type DrawTool = 'brush' | 'line' | 'rectangle' | 'ellipse' | 'fill' | 'select' | 'lasso' | 'paste';
+
+export interface CornerPoint {
+    col: number;
+    row: number;
+}
+
+export const MAX_BRUSH_SIZE = 64;
+
+const footprints = new Map<string, CornerPoint[]>();
+
+/**
+ * Geometry for the painting tools: which corners a brush, stroke or shape
+ * covers. Results are corner indices that the edit tools then apply to, so
+ * every tool gets shapes, interpolation and masks for free.
+ */
+export default class BrushTools {
+    /** Offsets covered by a brush of `size` corners across, centred on (0, 0). */
+    static footprint(shape: BrushShape, size: number): CornerPoint[] {
+        const s = Math.min(MAX_BRUSH_SIZE, Math.max(1, Math.round(size)));
+        const key = `${shape}:${s}`;
+        let cached = footprints.get(key);
+        if (!cached) {
+            const lo = -Math.floor((s - 1) / 2);
+            const hi = lo + s - 1;
+            const centre = (lo + hi) / 2;
+            const r2 = (s / 2) ** 2;
+            cached = [];
+            for (let dy = lo; dy <= hi; dy++) {
+                for (let dx = lo; dx <= hi; dx++) {
+                    if (shape === 'circle' && (dx - centre) ** 2 + (dy - centre) ** 2 > r2) continue;
+                    cached.push({ col: dx, row: dy });
+                }
+            }
+            footprints.set(key, cached);
+        }
+        return cached;
+    }
+
+    /** Union of the brush footprint stamped at every point, clipped to the map. */
+    static stamp(w3e: W3E, points: CornerPoint[], shape: BrushShape, size: number): number[] {
+        const { width, height } = w3e.header;
+        const offsets = BrushTools.footprint(shape, size);
+        const seen = new Uint8Array(width * height);
+        const indices: number[] = [];
+        for (const p of points) {
+            for (const o of offsets) {
+                const col = p.col + o.col;
+                const row = p.row + o.row;
+                if (col < 0 || col >= width || row < 0 || row >= height) continue;
+                const idx = row * width + col;
+                if (!seen[idx]) {
+                    seen[idx] = 1;
+                    indices.push(idx);
+                }
+            }
+        }
+        return indices;
+    }
+
+    /** Bresenham line from `a` to `b`, both ends included. */
+    static line(a: CornerPoint, b: CornerPoint): CornerPoint[] {
+        const points: CornerPoint[] = [];
+        const dx = Math.abs(b.col - a.col), sx = a.col < b.col ? 1 : -1;
+        const dy = -Math.abs(b.row - a.row), sy = a.row < b.row ? 1 : -1;
+        let err = dx + dy;
+        let { col, row } = a;
+        for (;;) {
+            points.push({ col, row });
+            if (col === b.col && row === b.row) break;
+            const e2 = 2 * err;
+            if (e2 >= dy) { err += dy; col += sx; }
+            if (e2 <= dx) { err += dx; row += sy; }
+        }
+        return points;
+    }
+
+    /** Rectangle spanned by two opposite corners: its outline, or every point inside when `filled`. */
+    static rectangle(a: CornerPoint, b: CornerPoint, filled: boolean): CornerPoint[] {
+        const c0 = Math.min(a.col, b.col), c1 = Math.max(a.col, b.col);
+        const r0 = Math.min(a.row, b.row), r1 = Math.max(a.row, b.row);
+        const points: CornerPoint[] = [];
+        for (let row = r0; row <= r1; row++) {
+            for (let col = c0; col <= c1; col++) {
+                if (filled || row === r0 || row === r1 || col === c0 || col === c1) points.push({ col, row });
+            }
+        }
+        return points;
+    }
+
+    /** Ellipse inscribed in the rectangle spanned by `a` and `b`. */
+    static ellipse(a: CornerPoint, b: CornerPoint, filled: boolean): CornerPoint[] {
+        const c0 = Math.min(a.col, b.col), c1 = Math.max(a.col, b.col);
+        const r0 = Math.min(a.row, b.row), r1 = Math.max(a.row, b.row);
+        const cx = (c0 + c1) / 2, cy = (r0 + r1) / 2;
+        const rx = (c1 - c0) / 2 + 0.5, ry = (r1 - r0) / 2 + 0.5;
+        const inside = (col: number, row: number) => ((col - cx) / rx) ** 2 + ((row - cy) / ry) ** 2 <= 1;
+
+        const points: CornerPoint[] = [];
+        for (let row = r0; row <= r1; row++) {
+            for (let col = c0; col <= c1; col++) {
+                if (!inside(col, row)) continue;
+                // Outline: inside points with a 4-neighbour outside
+                if (filled || !inside(col - 1, row) || !inside(col + 1, row) || !inside(col, row - 1) || !inside(col, row + 1)) {
+                    points.push({ col, row });
+                }
+            }
+        }
+        return points;
+    }
+
+    /** Corners 4-connected to `start` that share its value of `field`. */
+    static floodFill(w3e: W3E, start: CornerPoint, field: CornerField = 'groundTexture'): number[] {
+        const { width, height } = w3e.header;
+        if (start.col < 0 || start.col >= width || start.row < 0 || start.row >= height) return [];
+        const target = w3e.corners.getField(start.row * width + start.col, field);
+        const seen = new Uint8Array(width * height);
+        const indices: number[] = [];
+        const stack = [start.row * width + start.col];
+        seen[stack[0]] = 1;
+        while (stack.length > 0) {
+            const idx = stack.pop()!;
+            indices.push(idx);
+            const col = idx % width;
+            const neighbours = [
+                col > 0 ? idx - 1 : -1,
+                col < width - 1 ? idx + 1 : -1,
+                idx >= width ? idx - width : -1,
+                idx + width < width * height ? idx + width : -1
+            ];
+            for (const n of neighbours) {
+                if (n < 0 || seen[n]) continue;
+                seen[n] = 1;
+                if (w3e.corners.getField(n, field) === target) stack.push(n);
+            }
+        }
+        return indices;
+    }
+
+    /** Keeps only the corners whose ground texture is `slot`. */
+    static maskByTexture(w3e: W3E, indices: number[], slot: number): number[] {
+        return indices.filter(i => w3e.corners.getField(i, 'groundTexture') === slot);
+    }
+}
@@ -0,0 +1,197 @@
+import BitStream from "./BitStream";
+
+const BLOCK_MAGIC = 0x314159265359;
+const END_MAGIC = 0x177245385090;
+const GROUP_SIZE = 50;
+const MAX_CODE_LENGTH = 20;
+
+/** Canonical Huffman table for one coding group. */
+interface HuffmanTable {
+    firstCode: Int32Array; // per code length
+    count: Int32Array;
+    offset: Int32Array; // into `symbols`
+    symbols: Uint16Array; // ordered by code length, then symbol
+}
+
+/**
+ * bzip2 decompressor (no compression side) for MPQ sectors. Follows the
+ * reference decoder: Huffman + MTF/RUNA/RUNB decoding, inverse BWT through a
+ * linked `tt` array, then the final run-length step. Block CRCs are not checked.
+ */
+export default class Bzip2 {
+    static decompress(bytes: Uint8Array): Uint8Array {
+        if (bytes.length < 4 || bytes[0] !== 0x42 || bytes[1] !== 0x5A || bytes[2] !== 0x68 || bytes[3] < 0x31 || bytes[3] > 0x39) {
+            throw new Error("Not a bzip2 stream");
+        }
+        const blockSize = (bytes[3] - 0x30) * 100000;
+        const stream = new BitStream(bytes.subarray(4));
+        const tt = new Uint32Array(blockSize);
+        let out = new Uint8Array(Math.max(1024, bytes.length * 4));
+        let outLength = 0;
+        const emit = (byte: number) => {
+            if (outLength === out.length) {
+                const grown = new Uint8Array(out.length * 2);
+                grown.set(out);
+                out = grown;
+            }
+            out[outLength++] = byte;
+        };
+
+        for (;;) {
+            const magic = stream.readUBits(24) * 0x1000000 + stream.readUBits(24);
+            if (magic === END_MAGIC) break;
+            if (magic !== BLOCK_MAGIC) throw new Error("Corrupt bzip2 stream: bad block header");
+            stream.readUBits(32); // block CRC
+            if (stream.readUBits(1)) throw new Error("Randomised bzip2 blocks are not supported");
+            const origPtr = stream.readUBits(24);
+            const length = Bzip2.readBlock(stream, tt, blockSize);
+            if (origPtr >= length) throw new Error("Corrupt bzip2 stream: bad origin pointer");
+
+            // Inverse BWT, then undo the initial run-length encoding (4 equal bytes + repeat count)
+            let pos = tt[origPtr] >>> 8;
+            let last = -1, run = 0;
+            for (let i = 0; i < length; i++) {
+                pos = tt[pos];
+                const byte = pos & 0xFF;
+                pos >>>= 8;
+                if (run === 4) {
+                    for (let r = 0; r < byte; r++) emit(last);
+                    run = 0;
+                    continue;
+                }
+                if (byte === last) {
+                    run++;
+                } else {
+                    last = byte;
+                    run = 1;
+                }
+                emit(byte);
+            }
+        }
+        return out.slice(0, outLength);
+    }
+
+    /** Decodes one block's symbols into `tt` and links it for the inverse BWT. Returns the block length. */
+    private static readBlock(stream: BitStream, tt: Uint32Array, blockSize: number): number {
+        const seqToUnseq: number[] = [];
+        const used = stream.readUBits(16);
+        for (let i = 0; i < 16; i++) {
+            if (!(used & (0x8000 >> i))) continue;
+            const bits = stream.readUBits(16);
+            for (let j = 0; j < 16; j++) {
+                if (bits & (0x8000 >> j)) seqToUnseq.push(i * 16 + j);
+            }
+        }
+        if (seqToUnseq.length === 0) throw new Error("Corrupt bzip2 stream: empty symbol map");
+        const alphaSize = seqToUnseq.length + 2;
+
+        const groupCount = stream.readUBits(3);
+        const selectorCount = stream.readUBits(15);
+        if (groupCount < 2 || groupCount > 6 || selectorCount === 0) throw new Error("Corrupt bzip2 stream: bad coding groups");
+        const order = Array.from({ length: groupCount }, (_, i) => i);
+        const selectors = new Uint8Array(selectorCount);
+        for (let i = 0; i < selectorCount; i++) {
+            let j = 0;
+            while (stream.readUBits(1)) {
+                if (++j >= groupCount) throw new Error("Corrupt bzip2 stream: bad selector");
+            }
+            const group = order[j];
+            order.splice(j, 1);
+            order.unshift(group);
+            selectors[i] = group;
+        }
+
+        const tables: HuffmanTable[] = [];
+        for (let t = 0; t < groupCount; t++) {
+            const lengths = new Uint8Array(alphaSize);
+            let length = stream.readUBits(5);
+            for (let s = 0; s < alphaSize; s++) {
+                for (;;) {
+                    if (length < 1 || length > MAX_CODE_LENGTH) throw new Error("Corrupt bzip2 stream: bad code length");
+                    if (!stream.readUBits(1)) break;
+                    length += stream.readUBits(1) ? -1 : 1;
+                }
+                lengths[s] = length;
+            }
+            tables.push(Bzip2.buildTable(lengths));
+        }
+
+        // Symbols: RUNA/RUNB build zero-runs of the front MTF entry, others move an entry to the front
+        const mtf = seqToUnseq.map((_, i) => i);
+        const counts = new Int32Array(256);
+        const endOfBlock = alphaSize - 1;
+        let length = 0, selector = 0, groupLeft = 0;
+        let table = tables[0];
+        let runLength = 0, runWeight = 1;
+        for (;;) {
+            if (groupLeft === 0) {
+                if (selector >= selectorCount) throw new Error("Corrupt bzip2 stream: ran out of selectors");
+                table = tables[selectors[selector++]];
+                groupLeft = GROUP_SIZE;
+            }
+            groupLeft--;
+            const symbol = Bzip2.decodeSymbol(stream, table);
+            if (symbol <= 1) {
+                runLength += (symbol + 1) * runWeight;
+                runWeight *= 2;
+                if (runLength > blockSize) throw new Error("Corrupt bzip2 stream: run too long");
+                continue;
+            }
+            if (runLength > 0) {
+                if (length + runLength > blockSize) throw new Error("Corrupt bzip2 stream: block too long");
+                const byte = seqToUnseq[mtf[0]];
+                counts[byte] += runLength;
+                tt.fill(byte, length, length + runLength);
+                length += runLength;
+                runLength = 0;
+                runWeight = 1;
+            }
+            if (symbol === endOfBlock) break;
+            if (length >= blockSize) throw new Error("Corrupt bzip2 stream: block too long");
+            const index = symbol - 1;
+            const value = mtf[index];
+            mtf.splice(index, 1);
+            mtf.unshift(value);
+            const byte = seqToUnseq[value];
+            counts[byte]++;
+            tt[length++] = byte;
+        }
+
+        // Each entry gets the index of its successor in the upper 24 bits
+        const start = new Int32Array(256);
+        for (let i = 1; i < 256; i++) start[i] = start[i - 1] + counts[i - 1];
+        for (let i = 0; i < length; i++) {
+            const byte = tt[i] & 0xFF;
+            tt[start[byte]++] |= i << 8;
+        }
+        return length;
+    }
+
+    private static buildTable(lengths: Uint8Array): HuffmanTable {
+        const count = new Int32Array(MAX_CODE_LENGTH + 1);
+        for (const length of lengths) count[length]++;
+        const firstCode = new Int32Array(MAX_CODE_LENGTH + 1);
+        const offset = new Int32Array(MAX_CODE_LENGTH + 1);
+        let code = 0, index = 0;
+        for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+            firstCode[length] = code;
+            offset[length] = index;
+            code = (code + count[length]) << 1;
+            index += count[length];
+        }
+        const symbols = new Uint16Array(lengths.length);
+        const next = offset.slice();
+        lengths.forEach((length, symbol) => { symbols[next[length]++] = symbol; });
+        return { firstCode, count, offset, symbols };
+    }
+
+    private static decodeSymbol(stream: BitStream, table: HuffmanTable): number {
+        let code = 0;
+        for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+            code = (code << 1) | stream.readUBits(1);
+            const index = code - table.firstCode[length];
+            if (index >= 0 && index < table.count[length]) return table.symbols[table.offset[length] + index];
+        }
+        throw new Error("Corrupt bzip2 stream: invalid Huffman code");
+    }
+}
@@ -0,0 +1,247 @@
+import { Corner } from "./TerrainUtil";
+import { ProgressCallback } from "./ImageMapping";
+
+export type CornerField = Exclude<keyof Corner, 'index' | 'rowid' | 'colid'>;
+export type CornerValues = Partial<Record<CornerField, number>>;
+
+export const CORNER_FIELDS: CornerField[] = [
+    'groundHeight', 'waterHeight', 'mapEdge',
+    'groundTexture', 'ramp', 'water', 'blight', 'boundary',
+    'groundVariation', 'cliffVariation',
+    'cliffTexture', 'layerHeight'
+];
+
+/** Size of one corner record in a .w3e file. */
+export const CORNER_BYTES = 7;
+
+const clampRaw = (v: number, max: number) => Math.min(max, Math.max(0, Math.round(v)));
+
+/**
+ * Packed storage for a map's corner grid.
+ * Each corner is kept in its on-disk layout, spread over five typed arrays:
+ *   ground    u16  groundHeight * 4 + 8192
+ *   water     u16  waterHeight * 4 + 8192 (14 bits) | mapEdge << 14
+ *   flags     u8   groundTexture | ramp << 4 | water << 5 | blight << 6 | boundary << 7
+ *   variation u8   groundVariation | cliffVariation << 5
+ *   cliff     u8   cliffTexture | layerHeight << 4
+ * `get`/`set` translate to and from the `Corner` view used by the rest of the app.
+ */
+export default class CornerData {
+    readonly length: number;
+    private ground: Uint16Array;
+    private water: Uint16Array;
+    private flags: Uint8Array;
+    private variation: Uint8Array;
+    private cliff: Uint8Array;
+
+    constructor(readonly width: number, readonly height: number, source?: CornerData) {
+        this.length = width * height;
+        if (source) {
+            this.ground = source.ground.slice();
+            this.water = source.water.slice();
+            this.flags = source.flags.slice();
+            this.variation = source.variation.slice();
+            this.cliff = source.cliff.slice();
+        } else {
+            this.ground = new Uint16Array(this.length);
+            this.water = new Uint16Array(this.length);
+            this.flags = new Uint8Array(this.length);
+            this.variation = new Uint8Array(this.length);
+            this.cliff = new Uint8Array(this.length);
+        }
+    }
+
+    /** A grid where every corner holds the given values (unset fields are zero). */
+    static create(width: number, height: number, values: CornerValues = {}): CornerData {
+        const data = new CornerData(width, height);
+        if (data.length === 0) return data;
+        data.set(0, { groundHeight: 0, waterHeight: 0, ...values });
+        data.ground.fill(data.ground[0]);
+        data.water.fill(data.water[0]);
+        data.flags.fill(data.flags[0]);
+        data.variation.fill(data.variation[0]);
+        data.cliff.fill(data.cliff[0]);
+        return data;
+    }
+
+    static fromCorners(width: number, height: number, corners: Corner[]): CornerData {
+        const data = new CornerData(width, height);
+        corners.forEach((corner, i) => data.set(i, corner));
+        return data;
+    }
+
+    /** Reads `width * height` corner records starting at `offset`. Missing bytes read as zero. */
+    /** `onProgress` gets the parsed share after each row. */
+    static fromBytes(width: number, height: number, bytes: Uint8Array, offset = 0, onProgress?: ProgressCallback): CornerData {
+        const data = new CornerData(width, height);
+        const end = Math.min(bytes.length, offset + data.length * CORNER_BYTES);
+        let p = offset;
+        for (let i = 0; i < data.length && p + CORNER_BYTES <= end; i++, p += CORNER_BYTES) {
+            data.ground[i] = bytes[p] | (bytes[p + 1] << 8);
+            data.water[i] = bytes[p + 2] | (bytes[p + 3] << 8);
+            data.flags[i] = bytes[p + 4];
+            data.variation[i] = bytes[p + 5];
+            data.cliff[i] = bytes[p + 6];
+            if ((i + 1) % width === 0) onProgress?.((i + 1) / data.length);
+        }
+        return data;
+    }
+
+    /** `onProgress` gets the written share after each row. */
+    toBytes(onProgress?: ProgressCallback): Uint8Array {
+        const bytes = new Uint8Array(this.length * CORNER_BYTES);
+        for (let i = 0, p = 0; i < this.length; i++, p += CORNER_BYTES) {
+            bytes[p] = this.ground[i] & 0xFF;
+            bytes[p + 1] = this.ground[i] >> 8;
+            bytes[p + 2] = this.water[i] & 0xFF;
+            bytes[p + 3] = this.water[i] >> 8;
+            bytes[p + 4] = this.flags[i];
+            bytes[p + 5] = this.variation[i];
+            bytes[p + 6] = this.cliff[i];
+            if ((i + 1) % this.width === 0) onProgress?.((i + 1) / this.length);
+        }
+        return bytes;
+    }
+
+    clone(): CornerData {
+        return new CornerData(this.width, this.height, this);
+    }
+
+    get(index: number): Corner {
+        const flags = this.flags[index];
+        const variation = this.variation[index];
+        const cliff = this.cliff[index];
+        const water = this.water[index];
+        return {
+            index,
+            rowid: Math.floor(index / this.width),
+            colid: index % this.width,
+            groundHeight: (this.ground[index] - 8192) / 4,
+            waterHeight: ((water & 0x3FFF) - 8192) / 4,
+            mapEdge: water >>> 14,
+            groundTexture: flags & 0x0F,
+            ramp: (flags >> 4) & 1,
+            water: (flags >> 5) & 1,
+            blight: (flags >> 6) & 1,
+            boundary: (flags >> 7) & 1,
+            groundVariation: variation & 0x1F,
+            cliffVariation: variation >> 5,
+            cliffTexture: cliff & 0x0F,
+            layerHeight: cliff >> 4
+        };
+    }
+
+    /** Writes the given fields of one corner; `index`, `rowid` and `colid` are ignored. */
+    set(index: number, values: CornerValues): void {
+        for (const field of CORNER_FIELDS) {
+            const value = values[field];
+            if (value !== undefined) this.setField(index, field, value);
+        }
+    }
+
+    getField(index: number, field: CornerField): number {
+        switch (field) {
+            case 'groundHeight': return (this.ground[index] - 8192) / 4;
+            case 'waterHeight': return ((this.water[index] & 0x3FFF) - 8192) / 4;
+            case 'mapEdge': return this.water[index] >>> 14;
+            case 'groundTexture': return this.flags[index] & 0x0F;
+            case 'ramp': return (this.flags[index] >> 4) & 1;
+            case 'water': return (this.flags[index] >> 5) & 1;
+            case 'blight': return (this.flags[index] >> 6) & 1;
+            case 'boundary': return (this.flags[index] >> 7) & 1;
+            case 'groundVariation': return this.variation[index] & 0x1F;
+            case 'cliffVariation': return this.variation[index] >> 5;
+            case 'cliffTexture': return this.cliff[index] & 0x0F;
+            case 'layerHeight': return this.cliff[index] >> 4;
+        }
+    }
+
+    /** Writes one field. Values are clamped or masked to the bits the file format has for them. */
+    setField(index: number, field: CornerField, value: number): void {
+        switch (field) {
+            case 'groundHeight':
+                this.ground[index] = clampRaw(value * 4 + 8192, 0xFFFF);
+                break;
+            case 'waterHeight':
+                this.water[index] = (this.water[index] & 0xC000) | clampRaw(value * 4 + 8192, 0x3FFF);
+                break;
+            case 'mapEdge':
+                this.water[index] = (this.water[index] & 0x3FFF) | ((value & 0x03) << 14);
+                break;
+            case 'groundTexture':
+                this.flags[index] = (this.flags[index] & 0xF0) | (value & 0x0F);
+                break;
+            case 'ramp':
+            case 'water':
+            case 'blight':
+            case 'boundary': {
+                const bit = 1 << ({ ramp: 4, water: 5, blight: 6, boundary: 7 })[field];
+                this.flags[index] = value & 1 ? this.flags[index] | bit : this.flags[index] & ~bit;
+                break;
+            }
+            case 'groundVariation':
+                this.variation[index] = (this.variation[index] & 0xE0) | (value & 0x1F);
+                break;
+            case 'cliffVariation':
+                this.variation[index] = (this.variation[index] & 0x1F) | ((value & 0x07) << 5);
+                break;
+            case 'cliffTexture':
+                this.cliff[index] = (this.cliff[index] & 0xF0) | (value & 0x0F);
+                break;
+            case 'layerHeight':
+                this.cliff[index] = (this.cliff[index] & 0x0F) | ((value & 0x0F) << 4);
+                break;
+        }
+    }
+
+    /** Final elevation in world units, see TerrainUtil.getWorldHeight. */
+    getWorldHeight(index: number): number {
+        return (this.ground[index] - 8192) / 4 + ((this.cliff[index] >> 4) - 2) * 128;
+    }
+
+    /** Copies `count` consecutive corners from another grid. */
+    copyFrom(source: CornerData, sourceIndex: number, targetIndex: number, count = 1): void {
+        const end = sourceIndex + count;
+        this.ground.set(source.ground.subarray(sourceIndex, end), targetIndex);
+        this.water.set(source.water.subarray(sourceIndex, end), targetIndex);
+        this.flags.set(source.flags.subarray(sourceIndex, end), targetIndex);
+        this.variation.set(source.variation.subarray(sourceIndex, end), targetIndex);
+        this.cliff.set(source.cliff.subarray(sourceIndex, end), targetIndex);
+    }
+
+    equalsAt(index: number, other: CornerData, otherIndex = index): boolean {
+        return this.ground[index] === other.ground[otherIndex] &&
+            this.water[index] === other.water[otherIndex] &&
+            this.flags[index] === other.flags[otherIndex] &&
+            this.variation[index] === other.variation[otherIndex] &&
+            this.cliff[index] === other.cliff[otherIndex];
+    }
+
+    /** The two heights of a corner as one 32-bit value, for compact change records. */
+    getPackedHeights(index: number): number {
+        return (this.ground[index] | (this.water[index] << 16)) >>> 0;
+    }
+
+    /** The three bit-field bytes of a corner as one 24-bit value. */
+    getPackedBits(index: number): number {
+        return this.flags[index] | (this.variation[index] << 8) | (this.cliff[index] << 16);
+    }
+
+    setPacked(index: number, heights: number, bits: number): void {
+        this.ground[index] = heights & 0xFFFF;
+        this.water[index] = heights >>> 16;
+        this.flags[index] = bits & 0xFF;
+        this.variation[index] = (bits >> 8) & 0xFF;
+        this.cliff[index] = (bits >> 16) & 0xFF;
+    }
+
+    map<T>(fn: (corner: Corner, index: number) => T): T[] {
+        const result: T[] = new Array(this.length);
+        for (let i = 0; i < this.length; i++) result[i] = fn(this.get(i), i);
+        return result;
+    }
+
+    *[Symbol.iterator](): IterableIterator<Corner> {
+        for (let i = 0; i < this.length; i++) yield this.get(i);
+    }
+}
@@ -0,0 +1,70 @@
+import React from 'react';
+import { W3EDiagnostic } from './TerrainUtil';
+
+export interface DiagnosticsReport {
+    title: string;
+    diagnostics: W3EDiagnostic[];
+    action?: { label: string; run: () => void };
+}
+
+interface DiagnosticsDialogProps {
+    report: DiagnosticsReport;
+    onClose: () => void;
+}
+
+const DiagnosticsDialog: React.FC<DiagnosticsDialogProps> = ({ report, onClose }) => {
+    const errors = report.diagnostics.filter(d => d.severity === 'error').length;
+    const warnings = report.diagnostics.length - errors;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[520px] max-h-[80vh] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center shrink-0">
+                    <div className="flex flex-col gap-1">
+                        <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">{report.title}</h2>
+                        <span className="text-[8px] font-mono text-gray-600">{errors} errors, {warnings} warnings</span>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+                    {report.diagnostics.length === 0 && (
+                        <div className="text-[10px] font-bold text-emerald-400 uppercase tracking-widest">No problems found</div>
+                    )}
+                    {report.diagnostics.map((d, i) => (
+                        <div
+                            key={i}
+                            className={`rounded-xl border px-3 py-2 ${d.severity === 'error' ? 'border-red-500/20 bg-red-500/5' : 'border-amber-500/20 bg-amber-500/5'}`}
+                        >
+                            <div className="flex justify-between items-center">
+                                <span className={`text-[8px] font-black uppercase tracking-widest ${d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                                    {d.severity} · {d.code}
+                                </span>
+                                {d.offset !== undefined && (
+                                    <span className="text-[8px] font-mono text-gray-500">byte {d.offset} (0x{d.offset.toString(16)})</span>
+                                )}
+                            </div>
+                            <p className="text-[10px] text-gray-300 mt-1">{d.message}</p>
+                            {d.corners && d.corners.length > 0 && (
+                                <p className="text-[8px] font-mono text-gray-500 mt-1">
+                                    Corners: {d.corners.join(", ")}{d.count && d.count > d.corners.length ? ` … (+${d.count - d.corners.length})` : ''}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                {report.action && (
+                    <footer className="p-4 border-t border-white/5 flex justify-end shrink-0">
+                        <button
+                            onClick={() => { report.action!.run(); onClose(); }}
+                            className="bg-amber-600 hover:bg-amber-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest"
+                        >
+                            {report.action.label}
+                        </button>
+                    </footer>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DiagnosticsDialog;
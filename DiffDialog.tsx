@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { CornerField, CORNER_FIELDS } from './CornerData';
+import { DiffReport, MergeLayer, MERGE_LAYERS } from './TerrainDiff';
+
+interface DiffDialogProps {
+    fileName: string;
+    report: DiffReport;
+    heatmapField: CornerField | 'all';
+    onHeatmapFieldChange: (field: CornerField | 'all') => void;
+    showHeatmap: boolean;
+    onShowHeatmapChange: (show: boolean) => void;
+    selectionSize: number;
+    onMerge: (layers: MergeLayer[], selectionOnly: boolean, remap: boolean) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+const DiffDialog: React.FC<DiffDialogProps> = ({
+    fileName, report, heatmapField, onHeatmapFieldChange, showHeatmap, onShowHeatmapChange, selectionSize, onMerge, onClear, onClose
+}) => {
+    const [layers, setLayers] = useState<MergeLayer[]>(['texture']);
+    const [selectionOnly, setSelectionOnly] = useState(false);
+    const [remap, setRemap] = useState(true);
+
+    const toggleLayer = (id: MergeLayer) =>
+        setLayers(layers.includes(id) ? layers.filter(l => l !== id) : [...layers, id]);
+    const changedFields = CORNER_FIELDS.filter(f => report.fieldCounts[f] > 0);
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[600px] max-h-[85vh] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center shrink-0">
+                    <div className="flex flex-col gap-1">
+                        <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">Compare Maps</h2>
+                        <span className="text-[8px] font-mono text-gray-600">
+                            Current map → {fileName} · {report.sameSize ? `${report.changedCorners} corners differ` : 'sizes differ'}
+                        </span>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+                    <section className="space-y-1">
+                        <h3 className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Header</h3>
+                        {report.header.length === 0 && (
+                            <div className="text-[10px] font-bold text-emerald-400 uppercase tracking-widest">Identical</div>
+                        )}
+                        {report.header.map(change => (
+                            <div key={change.field} className="grid grid-cols-[110px_1fr_1fr] gap-2 text-[9px] font-mono">
+                                <span className="text-gray-500">{change.field}</span>
+                                <span className="text-red-300 break-all">{change.before}</span>
+                                <span className="text-emerald-300 break-all">{change.after}</span>
+                            </div>
+                        ))}
+                    </section>
+
+                    <section className="space-y-1">
+                        <h3 className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Corners</h3>
+                        {!report.sameSize && (
+                            <p className="text-[10px] text-amber-400">The maps have different sizes, so corners cannot be compared one to one.</p>
+                        )}
+                        {report.sameSize && changedFields.length === 0 && (
+                            <div className="text-[10px] font-bold text-emerald-400 uppercase tracking-widest">Identical</div>
+                        )}
+                        <div className="grid grid-cols-3 gap-1">
+                            {changedFields.map(field => (
+                                <div key={field} className="flex justify-between rounded-md bg-black/20 px-2 py-1 text-[9px] font-mono">
+                                    <span className="text-gray-400">{field}</span>
+                                    <span className="text-gray-200">{report.fieldCounts[field]}</span>
+                                </div>
+                            ))}
+                        </div>
+                        {report.sameSize && (
+                            <div className="flex items-center justify-between gap-2 pt-1">
+                                <label className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest text-gray-500">
+                                    <input type="checkbox" checked={showHeatmap} onChange={(e) => onShowHeatmapChange(e.target.checked)} className="w-3 h-3 cursor-pointer" />
+                                    Heatmap on preview
+                                </label>
+                                <select
+                                    value={heatmapField}
+                                    onChange={(e) => onHeatmapFieldChange(e.target.value as CornerField | 'all')}
+                                    className="bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                >
+                                    <option value="all">All fields</option>
+                                    {CORNER_FIELDS.map(field => <option key={field} value={field}>{field}</option>)}
+                                </select>
+                            </div>
+                        )}
+                    </section>
+
+                    <section className="space-y-2">
+                        <h3 className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Merge into current map</h3>
+                        <div className="grid grid-cols-2 gap-1">
+                            {MERGE_LAYERS.map(layer => (
+                                <label key={layer.id} className="flex items-center gap-2 text-[9px] text-gray-300">
+                                    <input type="checkbox" checked={layers.includes(layer.id)} onChange={() => toggleLayer(layer.id)} className="w-3 h-3 cursor-pointer" />
+                                    {layer.label}
+                                </label>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 text-[9px] text-gray-300">
+                            <input type="checkbox" checked={selectionOnly} disabled={selectionSize === 0} onChange={(e) => setSelectionOnly(e.target.checked)} className="w-3 h-3 cursor-pointer" />
+                            Only the current selection ({selectionSize} corners)
+                        </label>
+                        {!report.samePalettes && (
+                            <label className="flex items-center gap-2 text-[9px] text-amber-300">
+                                <input type="checkbox" checked={remap} onChange={(e) => setRemap(e.target.checked)} className="w-3 h-3 cursor-pointer" />
+                                Palettes differ: remap textures by tile ID
+                            </label>
+                        )}
+                    </section>
+                </div>
+                <footer className="p-4 border-t border-white/5 flex justify-between shrink-0">
+                    <button onClick={onClear} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Clear Comparison</button>
+                    <button
+                        onClick={() => onMerge(layers, selectionOnly && selectionSize > 0, remap)}
+                        disabled={!report.sameSize || layers.length === 0}
+                        title={report.sameSize ? undefined : "Resize one map so both have the same size first"}
+                        className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                        Merge Layers
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default DiffDialog;
@@ -0,0 +1,45 @@
+import { W3E, Corner, WATER_HEIGHT_MIN, WATER_HEIGHT_MAX } from "./TerrainUtil";
+import CornerData from "./CornerData";
+
+export type CornerFlag = 'water' | 'blight' | 'ramp' | 'boundary' | 'mapEdge';
+
+export const CORNER_FLAGS: { id: CornerFlag; label: string; color: string; max: number }[] = [
+    { id: 'water', label: 'Water', color: 'rgba(59,130,246,0.55)', max: 1 },
+    { id: 'blight', label: 'Blight', color: 'rgba(168,85,247,0.5)', max: 1 },
+    { id: 'ramp', label: 'Ramp', color: 'rgba(250,204,21,0.5)', max: 1 },
+    { id: 'boundary', label: 'Boundary', color: 'rgba(239,68,68,0.55)', max: 1 },
+    { id: 'mapEdge', label: 'Map Edge', color: 'rgba(20,184,166,0.5)', max: 3 }
+];
+
+export type FlagBrush =
+    | { kind: 'flag'; flag: CornerFlag; value: number }
+    | { kind: 'waterHeight'; waterHeight: number };
+
+export default class FlagTools {
+    /** Applies a flag or water-height brush to the given corners. Returns null when nothing changed. */
+    static applyBrush(w3e: W3E, indices: number[], brush: FlagBrush): W3E | null {
+        let corners: CornerData | null = null;
+
+        for (const idx of indices) {
+            const updated = FlagTools.applyToCorner(w3e.corners.get(idx), brush);
+            if (updated) {
+                corners = corners || w3e.corners.clone();
+                corners.set(idx, updated);
+            }
+        }
+        return corners ? { ...w3e, corners } : null;
+    }
+
+    private static applyToCorner(corner: Corner, brush: FlagBrush): Corner | null {
+        if (brush.kind === 'waterHeight') {
+            // Only corners flagged as water have a meaningful water level
+            if (!corner.water) return null;
+            const waterHeight = Math.min(WATER_HEIGHT_MAX, Math.max(WATER_HEIGHT_MIN, Math.round(brush.waterHeight * 4) / 4));
+            return waterHeight !== corner.waterHeight ? { ...corner, waterHeight } : null;
+        }
+
+        const max = CORNER_FLAGS.find(f => f.id === brush.flag)!.max;
+        const value = Math.min(max, Math.max(0, Math.round(brush.value)));
+        return corner[brush.flag] !== value ? { ...corner, [brush.flag]: value } : null;
+    }
+}
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { W3E } from './TerrainUtil';
+import TerrainGenerator, { GeneratorOptions, TextureRule, DEFAULT_GENERATOR_OPTIONS, MAX_OCTAVES } from './TerrainGenerator';
+
+interface GeneratorDialogProps {
+    terrain: W3E;
+    slotColors: string[];
+    onApply: (label: string, w3e: W3E) => void;
+    onError: (message: string) => void;
+    onClose: () => void;
+}
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (v: number) => void; step?: number }> = ({ label, value, onChange, step = 1 }) => (
+    <label className="flex items-center justify-between gap-2">
+        <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{label}</span>
+        <input
+            type="number"
+            step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+            className="w-24 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+        />
+    </label>
+);
+
+const RuleField: React.FC<{ value: number; onChange: (v: number) => void }> = ({ value, onChange }) => (
+    <input
+        type="number"
+        step={16}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="w-full min-w-0 bg-black/30 border border-white/10 rounded-md px-1 py-0.5 text-[9px] font-mono text-gray-300"
+    />
+);
+
+const GeneratorDialog: React.FC<GeneratorDialogProps> = ({ terrain, slotColors, onApply, onError, onClose }) => {
+    const { width, height, tilePalette } = terrain.header;
+    const [options, setOptions] = useState<GeneratorOptions>(() => ({
+        ...DEFAULT_GENERATOR_OPTIONS,
+        rules: TerrainGenerator.defaultRules(tilePalette)
+    }));
+    const previewRef = useRef<HTMLCanvasElement>(null);
+
+    const result = useMemo(() => {
+        try {
+            return { w3e: TerrainGenerator.generate(terrain, options), error: null };
+        } catch (err: any) {
+            return { w3e: null, error: err.message as string };
+        }
+    }, [terrain, options]);
+
+    useEffect(() => {
+        const canvas = previewRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !result.w3e) return;
+        canvas.width = width;
+        canvas.height = height;
+        const { corners } = result.w3e;
+        const range = options.maxHeight - options.minHeight || 1;
+        const img = ctx.createImageData(width, height);
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                const i = row * width + col;
+                const hex = slotColors[corners.getField(i, 'groundTexture')] || '#000000';
+                // Texture colour shaded by height, water blended in on top
+                const shade = 0.6 + 0.4 * Math.min(1, Math.max(0, (corners.getWorldHeight(i) - options.minHeight) / range));
+                const water = corners.getField(i, 'water') ? 0.6 : 0;
+                const p = ((height - 1 - row) * width + col) * 4;
+                img.data[p] = parseInt(hex.slice(1, 3), 16) * shade * (1 - water) + 30 * water;
+                img.data[p + 1] = parseInt(hex.slice(3, 5), 16) * shade * (1 - water) + 90 * water;
+                img.data[p + 2] = parseInt(hex.slice(5, 7), 16) * shade * (1 - water) + 200 * water;
+                img.data[p + 3] = 255;
+            }
+        }
+        ctx.putImageData(img, 0, 0);
+    }, [result, slotColors, width, height, options.minHeight, options.maxHeight]);
+
+    const set = (patch: Partial<GeneratorOptions>) => setOptions({ ...options, ...patch });
+    const setRule = (index: number, patch: Partial<TextureRule>) =>
+        set({ rules: options.rules.map((r, i) => i === index ? { ...r, ...patch } : r) });
+
+    const apply = () => {
+        if (!result.w3e) {
+            onError(result.error || "Generation failed");
+            return;
+        }
+        onApply(`Generate Terrain (seed ${options.seed})`, result.w3e);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[760px] max-h-[90vh] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center shrink-0">
+                    <div className="flex flex-col gap-1">
+                        <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">Generate Terrain</h2>
+                        <span className="text-[8px] font-mono text-gray-600">{width}x{height} · replaces every corner of the current map</span>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="p-4 grid grid-cols-2 gap-4 overflow-y-auto custom-scrollbar">
+                    <div className="flex flex-col gap-2">
+                        <div className="aspect-square bg-black/30 rounded-xl border border-white/5 flex items-center justify-center overflow-hidden">
+                            {result.w3e
+                                ? <canvas ref={previewRef} className="max-w-full max-h-full w-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                                : <span className="text-[10px] text-red-400 p-4 text-center">{result.error}</span>}
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Seed</span>
+                            <div className="flex gap-1">
+                                <input
+                                    type="number"
+                                    value={options.seed}
+                                    onChange={(e) => set({ seed: (parseInt(e.target.value) || 0) >>> 0 })}
+                                    className="w-24 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                />
+                                <button
+                                    onClick={() => set({ seed: Math.floor(Math.random() * 0xFFFFFFFF) })}
+                                    className="px-2 rounded-md bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase tracking-widest text-gray-400"
+                                >
+                                    New
+                                </button>
+                            </div>
+                        </div>
+                        <NumberField label="Feature Size" value={options.scale} step={4} onChange={(v) => set({ scale: Math.max(1, v) })} />
+                        <NumberField label="Octaves" value={options.octaves} onChange={(v) => set({ octaves: Math.min(MAX_OCTAVES, Math.max(1, Math.trunc(v))) })} />
+                        <NumberField label="Persistence" value={options.persistence} step={0.05} onChange={(v) => set({ persistence: Math.min(1, Math.max(0, v)) })} />
+                        <NumberField label="Lowest Height" value={options.minHeight} step={16} onChange={(minHeight) => set({ minHeight })} />
+                        <NumberField label="Highest Height" value={options.maxHeight} step={16} onChange={(maxHeight) => set({ maxHeight })} />
+                        <NumberField label="Edge Falloff" value={options.edgeFalloff} step={0.05} onChange={(v) => set({ edgeFalloff: Math.min(1, Math.max(0, v)) })} />
+                        <NumberField label="Sea Level" value={options.seaLevel} step={16} onChange={(seaLevel) => set({ seaLevel })} />
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Derive Cliff Levels</span>
+                            <input type="checkbox" checked={options.deriveCliffs} onChange={(e) => set({ deriveCliffs: e.target.checked })} className="w-3 h-3 cursor-pointer" />
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Random Variations</span>
+                            <input type="checkbox" checked={options.randomizeVariations} onChange={(e) => set({ randomizeVariations: e.target.checked })} className="w-3 h-3 cursor-pointer" />
+                        </label>
+                    </div>
+                    <div className="col-span-2 flex flex-col gap-2">
+                        <div className="flex justify-between items-center">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Texture Rules (first match wins)</span>
+                            <div className="flex gap-1">
+                                <button
+                                    onClick={() => set({ rules: [...options.rules, { slot: 0, minHeight: options.minHeight, maxHeight: options.maxHeight, minSlope: 0, maxSlope: 9999 }] })}
+                                    className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400"
+                                >
+                                    Add Rule
+                                </button>
+                                <button
+                                    onClick={() => set({ rules: TerrainGenerator.defaultRules(tilePalette, options.seaLevel) })}
+                                    className="px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[8px] font-black uppercase text-gray-400"
+                                >
+                                    Reset
+                                </button>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-[1fr_64px_64px_64px_64px_16px] gap-1 items-center text-[8px] font-black uppercase tracking-widest text-gray-600">
+                            <span>Texture</span><span>Min H</span><span>Max H</span><span>Min Slope</span><span>Max Slope</span><span />
+                            {options.rules.map((rule, i) => (
+                                <React.Fragment key={i}>
+                                    <div className="flex items-center gap-1 min-w-0">
+                                        <div className="w-3 h-3 rounded-sm border border-white/10 shrink-0" style={{ backgroundColor: slotColors[rule.slot] }} />
+                                        <select
+                                            value={rule.slot}
+                                            onChange={(e) => setRule(i, { slot: parseInt(e.target.value) })}
+                                            className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-md px-1 py-0.5 text-[9px] font-mono text-gray-300"
+                                        >
+                                            {tilePalette.map((tile, slot) => (
+                                                <option key={slot} value={slot}>{slot}: {tile}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <RuleField value={rule.minHeight} onChange={(minHeight) => setRule(i, { minHeight })} />
+                                    <RuleField value={rule.maxHeight} onChange={(maxHeight) => setRule(i, { maxHeight })} />
+                                    <RuleField value={rule.minSlope} onChange={(minSlope) => setRule(i, { minSlope })} />
+                                    <RuleField value={rule.maxSlope} onChange={(maxSlope) => setRule(i, { maxSlope })} />
+                                    <button
+                                        onClick={() => set({ rules: options.rules.filter((_, j) => j !== i) })}
+                                        className="text-gray-600 hover:text-red-400 text-[10px]"
+                                        title="Remove rule"
+                                    >
+                                        ×
+                                    </button>
+                                </React.Fragment>
+                            ))}
+                        </div>
+                        <p className="text-[8px] text-gray-600 leading-relaxed">
+                            Heights are world units. Slope is the largest height difference to a neighbouring corner, so cliff edges count as steep. Corners matching no rule keep slot 0.
+                        </p>
+                    </div>
+                </div>
+                <footer className="p-4 border-t border-white/5 flex justify-end shrink-0">
+                    <button
+                        onClick={apply}
+                        disabled={!result.w3e}
+                        className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                        Replace Terrain
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default GeneratorDialog;
@@ -0,0 +1,84 @@
+import { W3E, Corner, GROUND_HEIGHT_MIN, GROUND_HEIGHT_MAX, LAYER_HEIGHT_MAX } from "./TerrainUtil";
+import CornerData from "./CornerData";
+
+export type HeightTool = 'raise' | 'lower' | 'flatten' | 'smooth' | 'noise' | 'cliffUp' | 'cliffDown';
+
+export interface HeightBrush {
+    tool: HeightTool;
+    strength: number;  // world units per application
+    flattenTo: number; // target groundHeight for 'flatten'
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+const clampGround = (v: number) => clamp(Math.round(v * 4) / 4, GROUND_HEIGHT_MIN, GROUND_HEIGHT_MAX);
+
+export default class HeightTools {
+    /**
+     * Applies one dab of a height brush to the given corners (see BrushTools).
+     * `strokeBase` is the terrain at the start of the stroke; the cliff tools step
+     * relative to it so dragging does not keep stacking levels.
+     * Returns null when no corner changed.
+     */
+    static applyBrush(w3e: W3E, strokeBase: W3E, indices: number[], brush: HeightBrush): W3E | null {
+        let corners: CornerData | null = null;
+
+        for (const idx of indices) {
+            const updated = HeightTools.applyToCorner(w3e, strokeBase, w3e.corners.get(idx), brush);
+            if (updated) {
+                // Copy on first change so untouched dabs cost nothing
+                corners = corners || w3e.corners.clone();
+                corners.set(idx, updated);
+            }
+        }
+        return corners ? { ...w3e, corners } : null;
+    }
+
+    private static applyToCorner(w3e: W3E, strokeBase: W3E, corner: Corner, brush: HeightBrush): Corner | null {
+        switch (brush.tool) {
+            case 'raise':
+            case 'lower': {
+                const delta = brush.tool === 'raise' ? brush.strength : -brush.strength;
+                const groundHeight = clampGround(corner.groundHeight + delta);
+                return groundHeight !== corner.groundHeight ? { ...corner, groundHeight } : null;
+            }
+            case 'flatten': {
+                const groundHeight = clampGround(brush.flattenTo);
+                return groundHeight !== corner.groundHeight ? { ...corner, groundHeight } : null;
+            }
+            case 'smooth': {
+                const avg = HeightTools.neighbourAverage(w3e, corner.colid, corner.rowid);
+                const t = clamp(brush.strength / 64, 0, 1);
+                const groundHeight = clampGround(corner.groundHeight + (avg - corner.groundHeight) * t);
+                return groundHeight !== corner.groundHeight ? { ...corner, groundHeight } : null;
+            }
+            case 'noise': {
+                const groundHeight = clampGround(corner.groundHeight + (Math.random() * 2 - 1) * brush.strength);
+                return groundHeight !== corner.groundHeight ? { ...corner, groundHeight } : null;
+            }
+            case 'cliffUp':
+            case 'cliffDown': {
+                const base = corner.index < strokeBase.corners.length
+                    ? strokeBase.corners.getField(corner.index, 'layerHeight')
+                    : corner.layerHeight;
+                const layerHeight = clamp(base + (brush.tool === 'cliffUp' ? 1 : -1), 0, LAYER_HEIGHT_MAX);
+                return layerHeight !== corner.layerHeight ? { ...corner, layerHeight } : null;
+            }
+        }
+    }
+
+    private static neighbourAverage(w3e: W3E, col: number, row: number): number {
+        const { width, height } = w3e.header;
+        let sum = 0;
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const c = col + dx;
+                const r = row + dy;
+                if (c < 0 || c >= width || r < 0 || r >= height) continue;
+                sum += w3e.corners.getField(r * width + c, 'groundHeight');
+                count++;
+            }
+        }
+        return sum / count;
+    }
+}
@@ -0,0 +1,103 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { W3E } from './TerrainUtil';
+import HeightmapTools, { HeightSamples, HeightmapOptions, DEFAULT_HEIGHTMAP_OPTIONS } from './HeightmapTools';
+
+interface HeightmapDialogProps {
+    terrain: W3E;
+    samples: HeightSamples;
+    fileName: string;
+    onApply: (label: string, w3e: W3E) => void;
+    onError: (message: string) => void;
+    onClose: () => void;
+}
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (v: number) => void; step?: number }> = ({ label, value, onChange, step = 1 }) => (
+    <label className="flex items-center justify-between gap-2">
+        <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{label}</span>
+        <input
+            type="number"
+            step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+            className="w-24 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+        />
+    </label>
+);
+
+const HeightmapDialog: React.FC<HeightmapDialogProps> = ({ terrain, samples, fileName, onApply, onError, onClose }) => {
+    const [options, setOptions] = useState<HeightmapOptions>(DEFAULT_HEIGHTMAP_OPTIONS);
+    const previewRef = useRef<HTMLCanvasElement>(null);
+    const { width, height } = terrain.header;
+
+    const heights = useMemo(
+        () => HeightmapTools.computeHeights(samples, width, height, options),
+        [samples, width, height, options]
+    );
+
+    useEffect(() => {
+        const canvas = previewRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        canvas.width = width;
+        canvas.height = height;
+        const range = options.maxHeight - options.minHeight || 1;
+        const img = ctx.createImageData(width, height);
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                const v = Math.round(Math.min(1, Math.max(0, (heights[row * width + col] - options.minHeight) / range)) * 255);
+                const p = ((height - 1 - row) * width + col) * 4;
+                img.data[p] = img.data[p + 1] = img.data[p + 2] = v;
+                img.data[p + 3] = 255;
+            }
+        }
+        ctx.putImageData(img, 0, 0);
+    }, [heights, width, height, options.minHeight, options.maxHeight]);
+
+    const set = (patch: Partial<HeightmapOptions>) => setOptions({ ...options, ...patch });
+
+    const apply = () => {
+        try {
+            onApply('Import Heightmap', HeightmapTools.apply(terrain, samples, options));
+            onClose();
+        } catch (err: any) {
+            onError(err.message || "Heightmap import failed");
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[640px] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center">
+                    <div className="flex flex-col gap-1">
+                        <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">Import Heightmap</h2>
+                        <span className="text-[8px] font-mono text-gray-600">{fileName} · {samples.width}x{samples.height} · {samples.bitDepth}-bit</span>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="p-4 grid grid-cols-2 gap-4">
+                    <div className="aspect-square bg-black/30 rounded-xl border border-white/5 flex items-center justify-center overflow-hidden">
+                        <canvas ref={previewRef} className="max-w-full max-h-full w-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                    </div>
+                    <div className="flex flex-col gap-3">
+                        <NumberField label="Black Height" value={options.minHeight} step={16} onChange={(minHeight) => set({ minHeight })} />
+                        <NumberField label="White Height" value={options.maxHeight} step={16} onChange={(maxHeight) => set({ maxHeight })} />
+                        <NumberField label="Blur Radius" value={options.blur} onChange={(v) => set({ blur: Math.min(16, Math.max(0, Math.trunc(v))) })} />
+                        <NumberField label="Terraces" value={options.terraces} onChange={(v) => set({ terraces: Math.min(64, Math.max(0, Math.trunc(v))) })} />
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Derive Cliff Levels</span>
+                            <input type="checkbox" checked={options.deriveLayers} onChange={(e) => set({ deriveLayers: e.target.checked })} className="w-3 h-3 cursor-pointer" />
+                        </label>
+                        <p className="text-[8px] text-gray-600 leading-relaxed">
+                            Heights are world units. Cliff levels split them into 128-unit layers; otherwise only ground height changes. Terraces below 2 are off.
+                        </p>
+                    </div>
+                </div>
+                <footer className="p-4 border-t border-white/5 flex justify-end">
+                    <button onClick={apply} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest">Apply</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default HeightmapDialog;
@@ -0,0 +1,125 @@
+import TerrainUtil, { W3E, GROUND_HEIGHT_MIN, GROUND_HEIGHT_MAX } from "./TerrainUtil";
+import ImageMapping, { PixelBuffer } from "./ImageMapping";
+import PngCodec from "./PngCodec";
+
+/** Grayscale samples normalised to 0..1, row-major, top row first (image orientation). */
+export interface HeightSamples {
+    width: number;
+    height: number;
+    values: Float32Array;
+    bitDepth: 8 | 16;
+}
+
+export interface HeightmapOptions {
+    minHeight: number; // world height for black
+    maxHeight: number; // world height for white
+    blur: number; // box blur radius in corners, 0 = off
+    terraces: number; // number of height steps, 0 = off
+    deriveLayers: boolean; // split world height into cliff level + groundHeight
+}
+
+export const DEFAULT_HEIGHTMAP_OPTIONS: HeightmapOptions = {
+    minHeight: 0,
+    maxHeight: 256,
+    blur: 0,
+    terraces: 0,
+    deriveLayers: false
+};
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Heightmap import: turns a grayscale image into groundHeight (and optionally
+ * layerHeight). 8-bit images come from a canvas; 16-bit PNGs go through
+ * PngCodec because canvases only hand out 8 bits per channel.
+ */
+export default class HeightmapTools {
+    static fromPixels(pixels: PixelBuffer): HeightSamples {
+        const values = new Float32Array(pixels.width * pixels.height);
+        for (let i = 0; i < values.length; i++) {
+            values[i] = luminance(pixels.data[i * 4], pixels.data[i * 4 + 1], pixels.data[i * 4 + 2]) / 255;
+        }
+        return { width: pixels.width, height: pixels.height, values, bitDepth: 8 };
+    }
+
+    /**
+     * Decodes a 16-bit PNG. Returns null for anything else so the caller can
+     * fall back to the browser's 8-bit decoding.
+     */
+    static async decodePng16(bytes: Uint8Array): Promise<HeightSamples | null> {
+        const image = await PngCodec.decode(bytes);
+        if (!image || image.bitDepth !== 16) return null;
+
+        const bpp = image.channels * 2;
+        const values = new Float32Array(image.width * image.height);
+        for (let i = 0; i < values.length; i++) {
+            const at = (c: number) => ((image.data[i * bpp + c * 2] << 8) | image.data[i * bpp + c * 2 + 1]) / 65535;
+            values[i] = image.channels >= 3 ? luminance(at(0), at(1), at(2)) : at(0);
+        }
+        return { width: image.width, height: image.height, values, bitDepth: 16 };
+    }
+
+    /** World height per corner (terrain order, bottom row first) after resampling, blur and terracing. */
+    static computeHeights(samples: HeightSamples, width: number, height: number, options: HeightmapOptions): Float32Array {
+        let values = ImageMapping.resampleChannels(samples.values, 1, samples.width, samples.height, width, height);
+        if (options.blur > 0) values = HeightmapTools.blur(values, width, height, Math.round(options.blur));
+        if (options.terraces >= 2) {
+            const steps = Math.round(options.terraces) - 1;
+            values = values.map(v => Math.round(v * steps) / steps);
+        }
+
+        const heights = new Float32Array(width * height);
+        for (let row = 0; row < height; row++) {
+            const imgRow = (height - 1) - row;
+            for (let col = 0; col < width; col++) {
+                const v = Math.min(1, Math.max(0, values[imgRow * width + col]));
+                heights[row * width + col] = options.minHeight + v * (options.maxHeight - options.minHeight);
+            }
+        }
+        return heights;
+    }
+
+    /** Writes the heightmap into the terrain. Without `deriveLayers` cliff levels are left as they are. */
+    static apply(w3e: W3E, samples: HeightSamples, options: HeightmapOptions): W3E {
+        const { width, height } = w3e.header;
+        const heights = HeightmapTools.computeHeights(samples, width, height, options);
+        const corners = w3e.corners.clone();
+        for (let i = 0; i < heights.length; i++) {
+            const worldHeight = Math.round(heights[i] * 4) / 4;
+            if (options.deriveLayers) {
+                const { layerHeight, groundHeight } = TerrainUtil.splitWorldHeight(worldHeight);
+                corners.setField(i, 'layerHeight', layerHeight);
+                corners.setField(i, 'groundHeight', groundHeight);
+            } else {
+                corners.setField(i, 'groundHeight', HeightmapTools.clampGround(worldHeight));
+            }
+        }
+        return { ...w3e, corners };
+    }
+
+    private static clampGround(value: number): number {
+        return Math.min(GROUND_HEIGHT_MAX, Math.max(GROUND_HEIGHT_MIN, value));
+    }
+
+    /** Separable box blur with clamped edges. */
+    private static blur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+        const pass = (src: Float32Array, horizontal: boolean) => {
+            const out = new Float32Array(src.length);
+            const length = horizontal ? width : height;
+            const lines = horizontal ? height : width;
+            for (let line = 0; line < lines; line++) {
+                const at = (k: number) => {
+                    const c = Math.min(length - 1, Math.max(0, k));
+                    return src[horizontal ? line * width + c : c * width + line];
+                };
+                for (let k = 0; k < length; k++) {
+                    let sum = 0;
+                    for (let d = -radius; d <= radius; d++) sum += at(k + d);
+                    out[horizontal ? line * width + k : k * width + line] = sum / (radius * 2 + 1);
+                }
+            }
+            return out;
+        };
+        return pass(pass(values, true), false);
+    }
+}
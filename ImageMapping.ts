@@ -0,0 +1,271 @@
+import { W3E } from "./TerrainUtil";
+
+export type MatchMode = 'rgb' | 'lab';
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered';
+export type ResampleMode = 'browser' | 'area';
+
+export interface MappingOptions {
+    match: MatchMode;
+    dither: DitherMode;
+    resample: ResampleMode;
+}
+
+export const DEFAULT_MAPPING_OPTIONS: MappingOptions = { match: 'rgb', dither: 'none', resample: 'browser' };
+
+const OPTION_VALUES: { [K in keyof MappingOptions]: MappingOptions[K][] } = {
+    match: ['rgb', 'lab'],
+    dither: ['none', 'floyd-steinberg', 'ordered'],
+    resample: ['browser', 'area']
+};
+
+export interface RGB {
+    r: number;
+    g: number;
+    b: number;
+}
+
+/** A palette slot the image can be mapped to. Higher weights win close calls. */
+export interface MappingTarget {
+    slotIndex: number;
+    rgb: RGB;
+    weight: number;
+}
+
+/** Slot color settings as edited in the palette panel; `active` slots take part in mapping. */
+export interface ColorMapping {
+    slotIndex: number;
+    color: string;
+    active: boolean;
+    weight: number;
+    textureId?: string;
+}
+
+/** Anything shaped like ImageData: RGBA bytes, row-major, top row first. */
+export interface PixelBuffer {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray | Uint8Array;
+}
+
+/** A saved slot mapping, as read by the command line tool. */
+export interface MappingFile {
+    targets: { slot: number; color: string; weight?: number }[];
+    options?: Partial<MappingOptions>;
+}
+
+/** Receives the finished share of a long operation, 0 to 1. */
+export type ProgressCallback = (fraction: number) => void;
+
+export const MIN_SLOT_WEIGHT = 0.25;
+export const MAX_SLOT_WEIGHT = 4;
+
+// 4x4 Bayer matrix, values 0..15
+const BAYER_4 = [
+    0, 8, 2, 10,
+    12, 4, 14, 6,
+    3, 11, 1, 9,
+    15, 7, 13, 5
+];
+const ORDERED_SPREAD = 48;
+
+const srgbToLinear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+const labF = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+/**
+ * Image-to-palette matching used by "Apply Mapping".
+ * Works on float RGB buffers (3 values per pixel, top row first) so resampling
+ * and dithering can carry fractional values between steps.
+ */
+export default class ImageMapping {
+    static hexToRgb(hex: string): RGB {
+        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+        return result ? {
+            r: parseInt(result[1], 16),
+            g: parseInt(result[2], 16),
+            b: parseInt(result[3], 16)
+        } : { r: 0, g: 0, b: 0 };
+    }
+
+    /** sRGB (0-255) to CIELAB under D65. */
+    static rgbToLab(r: number, g: number, b: number): [number, number, number] {
+        const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+        const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+        const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750;
+        const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / 1.08883;
+        const fx = labF(x), fy = labF(y), fz = labF(z);
+        return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+    }
+
+    /** Copies the RGB channels of a buffer that already has the target size. */
+    static toRgb(pixels: PixelBuffer): Float32Array {
+        const count = pixels.width * pixels.height;
+        const out = new Float32Array(count * 3);
+        for (let i = 0; i < count; i++) {
+            out[i * 3] = pixels.data[i * 4];
+            out[i * 3 + 1] = pixels.data[i * 4 + 1];
+            out[i * 3 + 2] = pixels.data[i * 4 + 2];
+        }
+        return out;
+    }
+
+    /**
+     * Box-filter resample to `width x height`: every target pixel is the
+     * coverage-weighted mean of the source pixels under it. Runs as two
+     * separable passes and works for both shrinking and enlarging.
+     */
+    static resampleArea(pixels: PixelBuffer, width: number, height: number, onProgress?: ProgressCallback): Float32Array {
+        return ImageMapping.resampleChannels(ImageMapping.toRgb(pixels), 3, pixels.width, pixels.height, width, height, onProgress);
+    }
+
+    /** `resampleArea` for any interleaved float buffer with `channels` values per pixel. */
+    static resampleChannels(
+        src: Float32Array, channels: number, sw: number, sh: number, width: number, height: number, onProgress?: ProgressCallback
+    ): Float32Array {
+        // The horizontal pass reads every source row, so it gets the larger share of the progress
+        const split = sw * sh / (sw * sh + width * sh);
+        const horizontal = new Float32Array(width * sh * channels);
+        ImageMapping.boxPass(sw, width, (sx, tx, w) => {
+            for (let y = 0; y < sh; y++) {
+                for (let c = 0; c < channels; c++) horizontal[(y * width + tx) * channels + c] += src[(y * sw + sx) * channels + c] * w;
+            }
+        }, onProgress && (t => onProgress(t * split)));
+
+        const out = new Float32Array(width * height * channels);
+        ImageMapping.boxPass(sh, height, (sy, ty, w) => {
+            for (let x = 0; x < width; x++) {
+                for (let c = 0; c < channels; c++) out[(ty * width + x) * channels + c] += horizontal[(sy * width + x) * channels + c] * w;
+            }
+        }, onProgress && (t => onProgress(split + t * (1 - split))));
+        return out;
+    }
+
+    /**
+     * Calls `add(source, target, weight)` for every overlap of a 1D box resample; weights per target sum to 1.
+     * `onStep` gets the finished share after each target.
+     */
+    private static boxPass(sourceSize: number, targetSize: number, add: (s: number, t: number, w: number) => void, onStep?: ProgressCallback): void {
+        const scale = sourceSize / targetSize;
+        for (let t = 0; t < targetSize; t++) {
+            const start = t * scale;
+            const end = start + scale;
+            for (let s = Math.floor(start); s < Math.min(sourceSize, Math.ceil(end)); s++) {
+                const overlap = Math.min(end, s + 1) - Math.max(start, s);
+                if (overlap > 0) add(s, t, overlap / scale);
+            }
+            onStep?.((t + 1) / targetSize);
+        }
+    }
+
+    /**
+     * Picks a slot for every pixel of an RGB buffer. Returns slot indices in
+     * the same (top-row-first) order. Distances are divided by the slot weight.
+     */
+    static mapToSlots(
+        rgb: Float32Array, width: number, height: number, targets: MappingTarget[], options: MappingOptions, onProgress?: ProgressCallback
+    ): Uint8Array {
+        if (targets.length === 0) throw new Error("No slots to map to");
+
+        const useLab = options.match === 'lab';
+        const targetColors = targets.map(t => useLab ? ImageMapping.rgbToLab(t.rgb.r, t.rgb.g, t.rgb.b) : [t.rgb.r, t.rgb.g, t.rgb.b]);
+        const nearest = (r: number, g: number, b: number): number => {
+            const [p0, p1, p2] = useLab ? ImageMapping.rgbToLab(r, g, b) : [r, g, b];
+            let best = 0;
+            let bestDistance = Infinity;
+            for (let i = 0; i < targets.length; i++) {
+                const [c0, c1, c2] = targetColors[i];
+                const d = Math.sqrt((p0 - c0) ** 2 + (p1 - c1) ** 2 + (p2 - c2) ** 2) / targets[i].weight;
+                if (d < bestDistance) {
+                    bestDistance = d;
+                    best = i;
+                }
+            }
+            return best;
+        };
+
+        const slots = new Uint8Array(width * height);
+        const work = options.dither === 'floyd-steinberg' ? rgb.slice() : rgb;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                let r = work[i * 3], g = work[i * 3 + 1], b = work[i * 3 + 2];
+                if (options.dither === 'ordered') {
+                    const offset = (BAYER_4[(y % 4) * 4 + (x % 4)] / 16 - 0.5) * ORDERED_SPREAD;
+                    r += offset;
+                    g += offset;
+                    b += offset;
+                }
+                const pick = nearest(r, g, b);
+                slots[i] = targets[pick].slotIndex;
+
+                if (options.dither === 'floyd-steinberg') {
+                    const { rgb: chosen } = targets[pick];
+                    const error = [r - chosen.r, g - chosen.g, b - chosen.b];
+                    const spread = (dx: number, dy: number, factor: number) => {
+                        const nx = x + dx, ny = y + dy;
+                        if (nx < 0 || nx >= width || ny >= height) return;
+                        const j = (ny * width + nx) * 3;
+                        for (let c = 0; c < 3; c++) work[j + c] += error[c] * factor;
+                    };
+                    spread(1, 0, 7 / 16);
+                    spread(-1, 1, 3 / 16);
+                    spread(0, 1, 5 / 16);
+                    spread(1, 1, 1 / 16);
+                }
+            }
+            onProgress?.((y + 1) / height);
+        }
+        return slots;
+    }
+
+    /** Writes top-row-first slot indices into the terrain's ground texture. */
+    static writeSlots(w3e: W3E, slots: Uint8Array): W3E {
+        const { width, height } = w3e.header;
+        if (slots.length !== width * height) throw new Error(`Expected ${width * height} slots, got ${slots.length}`);
+        const corners = w3e.corners.clone();
+        for (let i = 0; i < slots.length; i++) {
+            corners.setField((height - 1 - Math.floor(i / width)) * width + (i % width), 'groundTexture', slots[i]);
+        }
+        return { ...w3e, corners };
+    }
+
+    static serializeMapping(targets: MappingTarget[], options: MappingOptions): string {
+        const hex = (v: number) => v.toString(16).padStart(2, '0');
+        const file: MappingFile = {
+            targets: targets.map(t => ({ slot: t.slotIndex, color: `#${hex(t.rgb.r)}${hex(t.rgb.g)}${hex(t.rgb.b)}`, weight: t.weight })),
+            options
+        };
+        return JSON.stringify(file, null, 2);
+    }
+
+    static parseMapping(text: string): { targets: MappingTarget[]; options: MappingOptions } {
+        const file: MappingFile = JSON.parse(text);
+        if (!Array.isArray(file?.targets) || file.targets.length === 0) throw new Error("Mapping file has no targets");
+        const targets = file.targets.map((t, i) => {
+            if (!Number.isInteger(t.slot) || t.slot < 0 || t.slot > 15) throw new Error(`Target ${i} has an invalid slot: ${t.slot}`);
+            if (!/^#?[a-f\d]{6}$/i.test(t.color)) throw new Error(`Target ${i} has an invalid color: ${t.color}`);
+            if (t.weight !== undefined && !(typeof t.weight === 'number' && Number.isFinite(t.weight))) {
+                throw new Error(`Target ${i} has an invalid weight: ${JSON.stringify(t.weight)}`);
+            }
+            const weight = Math.min(MAX_SLOT_WEIGHT, Math.max(MIN_SLOT_WEIGHT, t.weight ?? 1));
+            return { slotIndex: t.slot, rgb: ImageMapping.hexToRgb(t.color), weight };
+        });
+        return { targets, options: ImageMapping.parseOptions(file.options) };
+    }
+
+    /** Saved options over the defaults; unknown values are an error rather than silently acting as the default. */
+    static parseOptions(options: Partial<MappingOptions> | undefined): MappingOptions {
+        const parsed = { ...DEFAULT_MAPPING_OPTIONS, ...options };
+        const check = <K extends keyof MappingOptions>(key: K) => {
+            if (!OPTION_VALUES[key].includes(parsed[key])) {
+                throw new Error(`Mapping option ${key} '${parsed[key]}' is not one of ${OPTION_VALUES[key].join(", ")}`);
+            }
+        };
+        check('match');
+        check('dither');
+        check('resample');
+        return parsed;
+    }
+}
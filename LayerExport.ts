@@ -0,0 +1,86 @@
+import { W3E, GROUND_HEIGHT_MIN, GROUND_HEIGHT_MAX, LAYER_HEIGHT_MAX } from "./TerrainUtil";
+import ImageMapping from "./ImageMapping";
+import PngCodec, { PngImage } from "./PngCodec";
+
+export type ExportLayer = 'texture' | 'height' | 'height16' | 'cliff' | 'water' | 'blight' | 'boundary';
+
+export const EXPORT_LAYERS: { id: ExportLayer; label: string; description: string }[] = [
+    { id: 'texture', label: 'Texture', description: 'Slot colors, as shown in the preview' },
+    { id: 'height', label: 'Height', description: '8-bit, stretched to this map\'s lowest and highest ground' },
+    { id: 'height16', label: 'Height 16-bit', description: `16-bit, ${GROUND_HEIGHT_MIN} to ${GROUND_HEIGHT_MAX} mapped to 0-65535` },
+    { id: 'cliff', label: 'Cliff Level', description: `Cliff level 0-${LAYER_HEIGHT_MAX} scaled to 0-255` },
+    { id: 'water', label: 'Water Mask', description: 'White where the water flag is set' },
+    { id: 'blight', label: 'Blight Mask', description: 'White where the blight flag is set' },
+    { id: 'boundary', label: 'Boundary Mask', description: 'White where the boundary flag is set' }
+];
+
+export const MAX_EXPORT_SCALE = 16;
+
+/**
+ * Renders terrain layers to PNG images, one pixel per corner (optionally
+ * scaled up). The top image row is the top terrain row, matching renderTerrain.
+ */
+export default class LayerExport {
+    /** `slotColors` are hex colors per ground texture slot, only used by the texture layer. */
+    static render(w3e: W3E, layer: ExportLayer, slotColors: string[], scale = 1): PngImage {
+        const { width, height } = w3e.header;
+        const { corners } = w3e;
+        const s = Math.min(MAX_EXPORT_SCALE, Math.max(1, Math.trunc(scale)));
+
+        let channels: PngImage['channels'] = 1;
+        let bitDepth: PngImage['bitDepth'] = 8;
+        let sample: (index: number, out: Uint8Array, offset: number) => void;
+
+        if (layer === 'texture') {
+            const rgb = slotColors.map(c => ImageMapping.hexToRgb(c));
+            channels = 4;
+            sample = (i, out, o) => {
+                const c = rgb[corners.getField(i, 'groundTexture') % rgb.length];
+                out[o] = c.r;
+                out[o + 1] = c.g;
+                out[o + 2] = c.b;
+                out[o + 3] = 255;
+            };
+        } else if (layer === 'height') {
+            let min = Infinity, max = -Infinity;
+            for (let i = 0; i < corners.length; i++) {
+                const h = corners.getField(i, 'groundHeight');
+                if (h < min) min = h;
+                if (h > max) max = h;
+            }
+            const range = max - min || 1;
+            sample = (i, out, o) => { out[o] = Math.round((corners.getField(i, 'groundHeight') - min) / range * 255); };
+        } else if (layer === 'height16') {
+            bitDepth = 16;
+            sample = (i, out, o) => {
+                const v = Math.round((corners.getField(i, 'groundHeight') - GROUND_HEIGHT_MIN) / (GROUND_HEIGHT_MAX - GROUND_HEIGHT_MIN) * 65535);
+                const clamped = Math.min(65535, Math.max(0, v));
+                out[o] = clamped >> 8;
+                out[o + 1] = clamped & 0xFF;
+            };
+        } else if (layer === 'cliff') {
+            sample = (i, out, o) => { out[o] = Math.round(corners.getField(i, 'layerHeight') / LAYER_HEIGHT_MAX * 255); };
+        } else {
+            sample = (i, out, o) => { out[o] = corners.getField(i, layer) ? 255 : 0; };
+        }
+
+        const bpp = channels * bitDepth / 8;
+        const outWidth = width * s;
+        const data = new Uint8Array(outWidth * height * s * bpp);
+        const pixel = new Uint8Array(bpp);
+        for (let row = 0; row < height; row++) {
+            const top = (height - 1 - row) * s;
+            for (let col = 0; col < width; col++) {
+                sample(row * width + col, pixel, 0);
+                for (let y = top; y < top + s; y++) {
+                    for (let x = col * s; x < (col + 1) * s; x++) data.set(pixel, (y * outWidth + x) * bpp);
+                }
+            }
+        }
+        return { width: outWidth, height: height * s, channels, bitDepth, data };
+    }
+
+    static async encode(w3e: W3E, layer: ExportLayer, slotColors: string[], scale = 1): Promise<Uint8Array> {
+        return PngCodec.encode(LayerExport.render(w3e, layer, slotColors, scale));
+    }
+}
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { W3E } from './TerrainUtil';
+import LayerExport, { ExportLayer, EXPORT_LAYERS, MAX_EXPORT_SCALE } from './LayerExport';
+
+interface LayerExportDialogProps {
+    terrain: W3E;
+    slotColors: string[];
+    baseName: string;
+    onDownload: (fileName: string, bytes: Uint8Array) => void;
+    onError: (message: string) => void;
+    onClose: () => void;
+}
+
+const LayerExportDialog: React.FC<LayerExportDialogProps> = ({ terrain, slotColors, baseName, onDownload, onError, onClose }) => {
+    const [layers, setLayers] = useState<ExportLayer[]>(['texture']);
+    const [scale, setScale] = useState(1);
+    const [busy, setBusy] = useState(false);
+
+    const toggle = (layer: ExportLayer, on: boolean) =>
+        setLayers(on ? [...layers, layer] : layers.filter(l => l !== layer));
+
+    const exportLayers = async () => {
+        setBusy(true);
+        try {
+            for (const layer of EXPORT_LAYERS.filter(l => layers.includes(l.id))) {
+                onDownload(`${baseName}_${layer.id}.png`, await LayerExport.encode(terrain, layer.id, slotColors, scale));
+            }
+            onClose();
+        } catch (err: any) {
+            onError(err.message || "Layer export failed");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[400px] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center">
+                    <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">Export Layers</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="p-4 flex flex-col gap-2">
+                    {EXPORT_LAYERS.map(layer => (
+                        <label key={layer.id} className="flex items-start gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={layers.includes(layer.id)}
+                                onChange={(e) => toggle(layer.id, e.target.checked)}
+                                className="w-3 h-3 mt-0.5 cursor-pointer"
+                            />
+                            <div className="flex flex-col">
+                                <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest">{layer.label}</span>
+                                <span className="text-[8px] text-gray-600">{layer.description}</span>
+                            </div>
+                        </label>
+                    ))}
+                    <div className="h-px bg-white/5 my-1" />
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Pixels per Corner</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_EXPORT_SCALE}
+                            value={scale}
+                            onChange={(e) => setScale(Math.min(MAX_EXPORT_SCALE, Math.max(1, parseInt(e.target.value) || 1)))}
+                            className="w-24 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                        />
+                    </label>
+                    <div className="flex justify-between items-center pt-2">
+                        <span className="text-[8px] font-mono text-gray-600">
+                            {terrain.header.width * scale}x{terrain.header.height * scale} px
+                        </span>
+                        <button
+                            onClick={exportLayers}
+                            disabled={busy || layers.length === 0}
+                            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-30 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest"
+                        >
+                            Export
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LayerExportDialog;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import TerrainUtil, { W3E, ResizeMargins, MIN_MAP_DIMENSION, MAX_MAP_DIMENSION } from './TerrainUtil';
+import { TILESETS } from './TilesetCatalog';
+import VariationTools from './VariationTools';
+
+export type MapSizeMode = 'new' | 'extend' | 'resample';
+
+interface MapSizeDialogProps {
+    terrain: W3E | null;
+    initialMode: MapSizeMode;
+    variationSeed: number;
+    onApply: (label: string, w3e: W3E, mode: MapSizeMode) => void;
+    onError: (message: string) => void;
+    onClose: () => void;
+}
+
+const MODES: { id: MapSizeMode; label: string }[] = [
+    { id: 'new', label: 'New Map' },
+    { id: 'extend', label: 'Extend / Crop' },
+    { id: 'resample', label: 'Resample' }
+];
+
+const SIDES: (keyof ResizeMargins)[] = ['left', 'right', 'bottom', 'top'];
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (v: number) => void; step?: number }> = ({ label, value, onChange, step = 1 }) => (
+    <label className="flex items-center justify-between gap-2">
+        <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{label}</span>
+        <input
+            type="number"
+            step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+            className="w-24 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+        />
+    </label>
+);
+
+const MapSizeDialog: React.FC<MapSizeDialogProps> = ({ terrain, initialMode, variationSeed, onApply, onError, onClose }) => {
+    const [mode, setMode] = useState<MapSizeMode>(terrain ? initialMode : 'new');
+    const [width, setWidth] = useState(terrain ? terrain.header.width : 65);
+    const [height, setHeight] = useState(terrain ? terrain.header.height : 65);
+    const [margins, setMargins] = useState<ResizeMargins>({ left: 0, right: 0, bottom: 0, top: 0 });
+    const [fillTexture, setFillTexture] = useState(0);
+    const [fillHeight, setFillHeight] = useState(0);
+    const [fillLayer, setFillLayer] = useState(2);
+    const [tileset, setTileset] = useState(terrain ? terrain.header.baseTileset : 'L');
+    const [randomizeVariations, setRandomizeVariations] = useState(true);
+
+    const apply = () => {
+        try {
+            if (mode === 'new') {
+                const blank = TerrainUtil.generateEmptyW3e(width, height, tileset);
+                onApply(`New ${width}x${height} Map`, randomizeVariations ? VariationTools.randomize(blank, variationSeed) : blank, mode);
+            } else if (terrain && mode === 'extend') {
+                const resized = TerrainUtil.resizeW3e(terrain, margins, {
+                    groundTexture: fillTexture,
+                    groundHeight: fillHeight,
+                    layerHeight: fillLayer
+                });
+                onApply(`Resize to ${resized.header.width}x${resized.header.height}`, resized, mode);
+            } else if (terrain && mode === 'resample') {
+                onApply(`Resample to ${width}x${height}`, TerrainUtil.resampleW3e(terrain, width, height), mode);
+            }
+            onClose();
+        } catch (err: any) {
+            onError(err.message || "Resize failed");
+        }
+    };
+
+    const resultSize = mode === 'extend' && terrain
+        ? `${terrain.header.width + margins.left + margins.right}x${terrain.header.height + margins.bottom + margins.top}`
+        : `${width}x${height}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[360px] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center">
+                    <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">Map Size</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="p-4 flex flex-col gap-3">
+                    <div className="flex gap-1">
+                        {MODES.map(m => (
+                            <button
+                                key={m.id}
+                                disabled={m.id !== 'new' && !terrain}
+                                onClick={() => setMode(m.id)}
+                                className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest disabled:opacity-30 ${mode === m.id ? 'bg-blue-600 text-white' : 'bg-white/5 text-gray-500 hover:text-gray-300'}`}
+                            >
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {mode === 'new' && (
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Tileset</span>
+                            <select
+                                value={tileset}
+                                onChange={(e) => setTileset(e.target.value)}
+                                className="w-40 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                            >
+                                {TILESETS.map(t => (
+                                    <option key={t.letter} value={t.letter}>{t.letter}: {t.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+
+                    {mode === 'new' && (
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Random Variations (seed {variationSeed})</span>
+                            <input type="checkbox" checked={randomizeVariations} onChange={(e) => setRandomizeVariations(e.target.checked)} className="w-3 h-3 cursor-pointer" />
+                        </label>
+                    )}
+
+                    {mode !== 'extend' && (
+                        <>
+                            <NumberField label="Width (corners)" value={width} onChange={setWidth} />
+                            <NumberField label="Height (corners)" value={height} onChange={setHeight} />
+                        </>
+                    )}
+
+                    {mode === 'extend' && (
+                        <>
+                            {SIDES.map(side => (
+                                <NumberField key={side} label={`${side} (tiles)`} value={margins[side]} onChange={(v) => setMargins({ ...margins, [side]: Math.trunc(v) })} />
+                            ))}
+                            <div className="h-px bg-white/5" />
+                            <label className="flex items-center justify-between gap-2">
+                                <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Fill Texture</span>
+                                <select
+                                    value={fillTexture}
+                                    onChange={(e) => setFillTexture(parseInt(e.target.value))}
+                                    className="w-24 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono text-gray-300"
+                                >
+                                    {terrain?.header.tilePalette.map((tile, i) => (
+                                        <option key={i} value={i}>{i}: {tile}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <NumberField label="Fill Height" value={fillHeight} step={0.25} onChange={setFillHeight} />
+                            <NumberField label="Fill Cliff Level" value={fillLayer} onChange={(v) => setFillLayer(Math.min(15, Math.max(0, Math.trunc(v))))} />
+                            <p className="text-[8px] text-gray-600 leading-relaxed">Negative values crop. Existing terrain keeps its world coordinates.</p>
+                        </>
+                    )}
+
+                    <div className="flex justify-between items-center pt-2">
+                        <span className="text-[8px] font-mono text-gray-600">Result: {resultSize} (limit {MIN_MAP_DIMENSION}-{MAX_MAP_DIMENSION})</span>
+                        <button onClick={apply} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest">Apply</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MapSizeDialog;
@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { W3E } from './TerrainUtil';
+import ImageMapping, {
+    MappingOptions, MappingTarget, MatchMode, DitherMode, ResampleMode, PixelBuffer, MIN_SLOT_WEIGHT, MAX_SLOT_WEIGHT
+} from './ImageMapping';
+import TerrainProcessor, { ProcessingCancelledError } from './TerrainProcessor';
+
+interface MappingDialogProps {
+    terrain: W3E;
+    image: HTMLImageElement;
+    targets: MappingTarget[];
+    slotColors: string[];
+    options: MappingOptions;
+    onOptionsChange: (options: MappingOptions) => void;
+    onWeightChange: (slotIndex: number, weight: number) => void;
+    onApply: (label: string, w3e: W3E) => void;
+    onError: (message: string) => void;
+    onClose: () => void;
+}
+
+const MATCH_MODES: { id: MatchMode; label: string }[] = [
+    { id: 'rgb', label: 'RGB' },
+    { id: 'lab', label: 'CIELAB ΔE' }
+];
+
+const DITHER_MODES: { id: DitherMode; label: string }[] = [
+    { id: 'none', label: 'None' },
+    { id: 'floyd-steinberg', label: 'Floyd-Steinberg' },
+    { id: 'ordered', label: 'Ordered' }
+];
+
+const RESAMPLE_MODES: { id: ResampleMode; label: string }[] = [
+    { id: 'browser', label: 'Browser' },
+    { id: 'area', label: 'Area Average' }
+];
+
+function OptionRow<T extends string>({ label, value, choices, onChange }: {
+    label: string;
+    value: T;
+    choices: { id: T; label: string }[];
+    onChange: (v: T) => void;
+}) {
+    return (
+        <div className="flex items-center justify-between gap-2">
+            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{label}</span>
+            <div className="flex gap-1">
+                {choices.map(c => (
+                    <button
+                        key={c.id}
+                        onClick={() => onChange(c.id)}
+                        className={`px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest ${value === c.id ? 'bg-blue-600 text-white' : 'bg-white/5 text-gray-500 hover:text-gray-300'}`}
+                    >
+                        {c.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/** Wait after the last option or weight change before mapping again, so dragging a slider does not queue a job per step. */
+const REMAP_DELAY = 150;
+
+/** Reads the image's pixels, at full size for area resampling or scaled to the map by the browser. */
+const readImage = (image: HTMLImageElement, width: number, height: number, resample: ResampleMode): PixelBuffer => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available");
+    const size = resample === 'area' ? { width: image.width, height: image.height } : { width, height };
+    canvas.width = size.width;
+    canvas.height = size.height;
+    ctx.drawImage(image, 0, 0, size.width, size.height);
+    return ctx.getImageData(0, 0, size.width, size.height);
+};
+
+/** Paints one slot color per corner; `slotAt` takes a top-row-first pixel index. */
+const drawSlots = (canvas: HTMLCanvasElement | null, width: number, height: number, colors: string[], slotAt: (i: number) => number) => {
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = width;
+    canvas.height = height;
+    const rgb = colors.map(c => ImageMapping.hexToRgb(c));
+    const img = ctx.createImageData(width, height);
+    for (let i = 0; i < width * height; i++) {
+        const c = rgb[slotAt(i) % rgb.length];
+        img.data[i * 4] = c.r;
+        img.data[i * 4 + 1] = c.g;
+        img.data[i * 4 + 2] = c.b;
+        img.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(img, 0, 0);
+};
+
+const MappingDialog: React.FC<MappingDialogProps> = ({
+    terrain, image, targets, slotColors, options, onOptionsChange, onWeightChange, onApply, onError, onClose
+}) => {
+    const { width, height } = terrain.header;
+    const beforeRef = useRef<HTMLCanvasElement>(null);
+    const afterRef = useRef<HTMLCanvasElement>(null);
+
+    // Resampling and matching run in a worker; `rgb` is the image at corner resolution, `slots` the mapped result
+    const processor: TerrainProcessor = useMemo(() => new TerrainProcessor(), []);
+    const [rgb, setRgb] = useState<Float32Array | null>(null);
+    const [slots, setSlots] = useState<Uint8Array | null>(null);
+    const [progress, setProgress] = useState<{ label: string; fraction: number } | null>(null);
+    const [cancelled, setCancelled] = useState(false);
+    const [attempt, setAttempt] = useState(0);
+
+    useEffect(() => () => processor.dispose(), [processor]);
+
+    /** Hands a job's result to `onDone` unless a newer job has replaced it. */
+    const track = <T,>(label: string, job: Promise<T>, isCurrent: () => boolean, onDone: (result: T) => void) => {
+        job.then(result => {
+            if (!isCurrent()) return;
+            setProgress(null);
+            onDone(result);
+        }, err => {
+            // Jobs are also cancelled to make room for newer ones, so only cancelPreview reports it
+            if (!isCurrent() || err instanceof ProcessingCancelledError) return;
+            setProgress(null);
+            onError(`${label} failed: ${err.message}`);
+        });
+    };
+
+    const cancelPreview = () => {
+        processor.cancel();
+        setProgress(null);
+        setCancelled(true);
+    };
+
+    useEffect(() => {
+        let current = true;
+        processor.cancel();
+        setRgb(null);
+        setSlots(null);
+        setCancelled(false);
+        try {
+            const pixels = readImage(image, width, height, options.resample);
+            if (options.resample === 'browser') {
+                setRgb(ImageMapping.toRgb(pixels));
+            } else {
+                setProgress({ label: 'Resampling', fraction: 0 });
+                const job = processor.resampleArea(pixels, width, height, fraction => current && setProgress({ label: 'Resampling', fraction }));
+                track('Resampling', job, () => current, setRgb);
+            }
+        } catch (err: any) {
+            onError(err.message || "Cannot read the image");
+        }
+        return () => { current = false; };
+    }, [image, width, height, options.resample, attempt]);
+
+    useEffect(() => {
+        if (!rgb) return;
+        let current = true;
+        const timer = setTimeout(() => {
+            processor.cancel();
+            setCancelled(false);
+            setProgress({ label: 'Mapping', fraction: 0 });
+            const job = processor.mapToSlots(rgb, width, height, targets, options, fraction => current && setProgress({ label: 'Mapping', fraction }));
+            track('Mapping', job, () => current, setSlots);
+        }, REMAP_DELAY);
+        return () => {
+            current = false;
+            clearTimeout(timer);
+        };
+    }, [rgb, targets, options.match, options.dither]);
+
+    // The terrain is stored bottom row first; previews are drawn like the image, top row first.
+    const cornerIndex = (i: number) => (height - 1 - Math.floor(i / width)) * width + (i % width);
+
+    useEffect(() => {
+        drawSlots(beforeRef.current, width, height, slotColors, i => terrain.corners.getField(cornerIndex(i), 'groundTexture'));
+    }, [terrain, slotColors]);
+
+    useEffect(() => {
+        if (slots) drawSlots(afterRef.current, width, height, slotColors, i => slots[i]);
+    }, [slots, slotColors]);
+
+    const apply = () => {
+        if (!slots) return;
+        try {
+            onApply('Apply Mapping', ImageMapping.writeSlots(terrain, slots));
+            onClose();
+        } catch (err: any) {
+            onError(err.message || "Mapping failed");
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[880px] max-h-[90vh] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center shrink-0">
+                    <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">Image Mapping</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 flex flex-col gap-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        {[{ label: 'Current', ref: beforeRef }, { label: 'Mapped', ref: afterRef }].map(p => (
+                            <div key={p.label} className="flex flex-col gap-2">
+                                <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{p.label}</span>
+                                <div className="aspect-square bg-black/30 rounded-xl border border-white/5 flex items-center justify-center overflow-hidden">
+                                    <canvas ref={p.ref} className="max-w-full max-h-full w-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="flex flex-col gap-2">
+                            <OptionRow label="Match" value={options.match} choices={MATCH_MODES} onChange={(match) => onOptionsChange({ ...options, match })} />
+                            <OptionRow label="Dither" value={options.dither} choices={DITHER_MODES} onChange={(dither) => onOptionsChange({ ...options, dither })} />
+                            <OptionRow label="Resample" value={options.resample} choices={RESAMPLE_MODES} onChange={(resample) => onOptionsChange({ ...options, resample })} />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Slot Weights</span>
+                            {targets.map(t => (
+                                <label key={t.slotIndex} className="flex items-center gap-2">
+                                    <div className="w-3 h-3 rounded-sm border border-white/10 shrink-0" style={{ backgroundColor: slotColors[t.slotIndex] }} />
+                                    <span className="text-[8px] font-mono text-gray-500 w-10 shrink-0">Slot {t.slotIndex}</span>
+                                    <input
+                                        type="range"
+                                        min={MIN_SLOT_WEIGHT}
+                                        max={MAX_SLOT_WEIGHT}
+                                        step="0.25"
+                                        value={t.weight}
+                                        onChange={(e) => onWeightChange(t.slotIndex, parseFloat(e.target.value))}
+                                        className="flex-1 h-1 bg-black rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                    />
+                                    <span className="text-[8px] font-mono text-gray-400 w-8 text-right">{t.weight.toFixed(2)}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <footer className="p-4 border-t border-white/5 flex justify-between items-center shrink-0">
+                    {progress ? (
+                        <div className="flex items-center gap-3">
+                            <span className="text-[9px] font-black text-blue-400 uppercase tracking-widest w-20">{progress.label}</span>
+                            <div className="w-40 h-1 bg-black rounded-full overflow-hidden">
+                                <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+                            </div>
+                            <span className="text-[8px] font-mono text-gray-400 w-8 text-right">{Math.round(progress.fraction * 100)}%</span>
+                            <button onClick={cancelPreview} className="text-gray-500 hover:text-white text-[8px] font-black uppercase tracking-widest">Cancel</button>
+                        </div>
+                    ) : cancelled ? (
+                        <div className="flex items-center gap-3">
+                            <span className="text-[8px] text-amber-400">Preview cancelled.</span>
+                            <button onClick={() => setAttempt(a => a + 1)} className="text-gray-500 hover:text-white text-[8px] font-black uppercase tracking-widest">Retry</button>
+                        </div>
+                    ) : (
+                        <span className="text-[8px] text-gray-600">Weights above 1 make a slot win close matches.</span>
+                    )}
+                    <button
+                        onClick={apply}
+                        disabled={!slots}
+                        className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:hover:bg-emerald-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest"
+                    >
+                        Apply Mapping
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default MappingDialog;
@@ -0,0 +1,321 @@
+import Bzip2 from "./Bzip2";
+
+const HEADER_MAGIC = 0x1A51504D; // 'MPQ\x1A'
+const USER_DATA_MAGIC = 0x1B51504D; // 'MPQ\x1B'
+const HEADER_ALIGNMENT = 0x200;
+
+const HASH_ENTRY_EMPTY = 0xFFFFFFFF;
+const HASH_ENTRY_DELETED = 0xFFFFFFFE;
+
+const FILE_IMPLODE = 0x00000100;
+const FILE_COMPRESS = 0x00000200;
+const FILE_ENCRYPTED = 0x00010000;
+const FILE_FIX_KEY = 0x00020000;
+const FILE_SINGLE_UNIT = 0x01000000;
+const FILE_EXISTS = 0x80000000;
+
+const COMPRESSION_ZLIB = 0x02;
+const COMPRESSION_BZIP2 = 0x10;
+
+/** The map file inside a .w3x/.w3m archive. */
+export const W3E_ARCHIVE_PATH = 'war3map.w3e';
+
+let cryptTable: Uint32Array | null = null;
+
+const getCryptTable = (): Uint32Array => {
+    if (cryptTable) return cryptTable;
+    cryptTable = new Uint32Array(0x500);
+    let seed = 0x00100001;
+    for (let index1 = 0; index1 < 0x100; index1++) {
+        for (let i = 0, index2 = index1; i < 5; i++, index2 += 0x100) {
+            seed = (seed * 125 + 3) % 0x2AAAAB;
+            const high = (seed & 0xFFFF) << 16;
+            seed = (seed * 125 + 3) % 0x2AAAAB;
+            cryptTable[index2] = (high | (seed & 0xFFFF)) >>> 0;
+        }
+    }
+    return cryptTable;
+};
+
+/** Storm's string hash; type 0 picks the hash slot, 1 and 2 identify the name, 3 derives keys. */
+const hashString = (text: string, type: number): number => {
+    const table = getCryptTable();
+    let seed1 = 0x7FED7FED, seed2 = 0xEEEEEEEE;
+    for (const ch of text.toUpperCase().replace(/\//g, '\\')) {
+        const c = ch.charCodeAt(0) & 0xFF;
+        seed1 = (table[type * 0x100 + c] ^ (seed1 + seed2)) >>> 0;
+        seed2 = (c + seed1 + seed2 + (seed2 << 5) + 3) >>> 0;
+    }
+    return seed1;
+};
+
+/** Decrypts (or with `encrypt`, encrypts) whole little-endian words in place; trailing bytes are left as they are. */
+const cryptBlock = (data: Uint8Array, key: number, encrypt = false) => {
+    const table = getCryptTable();
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let seed1 = key >>> 0, seed2 = 0xEEEEEEEE;
+    for (let p = 0; p + 4 <= data.length; p += 4) {
+        seed2 = (seed2 + table[0x400 + (seed1 & 0xFF)]) >>> 0;
+        const value = view.getUint32(p, true);
+        const result = (value ^ (seed1 + seed2)) >>> 0;
+        view.setUint32(p, result, true);
+        const plain = encrypt ? value : result;
+        seed1 = ((((~seed1) << 21) + 0x11111111) | (seed1 >>> 11)) >>> 0;
+        seed2 = (plain + seed2 + (seed2 << 5) + 3) >>> 0;
+    }
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+interface MpqHeader {
+    offset: number; // of the header within the file; every position below is relative to it
+    headerSize: number;
+    formatVersion: number;
+    sectorSize: number;
+    hashTablePos: number;
+    blockTablePos: number;
+    hashTableSize: number;
+    blockTableSize: number;
+}
+
+/**
+ * Reader for the MPQ archives Warcraft III maps (.w3x/.w3m) are stored in,
+ * plus replacing files in a copy of the archive. Only the classic hash and
+ * block tables are used; zlib and bzip2 sectors are supported.
+ */
+export default class MpqArchive {
+    private constructor(
+        readonly bytes: Uint8Array,
+        private readonly header: MpqHeader,
+        private readonly hashTable: Uint32Array, // 4 words per entry: nameA, nameB, locale | platform, blockIndex
+        private readonly blockTable: Uint32Array // 4 words per entry: offset, compressedSize, fileSize, flags
+    ) {}
+
+    /** True if the bytes contain an MPQ header at one of the offsets the format allows. */
+    static isArchive(bytes: Uint8Array): boolean {
+        return MpqArchive.findHeader(bytes) >= 0;
+    }
+
+    static open(bytes: Uint8Array): MpqArchive {
+        const offset = MpqArchive.findHeader(bytes);
+        if (offset < 0) throw new Error("No MPQ archive header found");
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const header: MpqHeader = {
+            offset,
+            headerSize: view.getUint32(offset + 4, true),
+            formatVersion: view.getUint16(offset + 12, true),
+            sectorSize: 512 << view.getUint16(offset + 14, true),
+            hashTablePos: view.getUint32(offset + 16, true),
+            blockTablePos: view.getUint32(offset + 20, true),
+            hashTableSize: view.getUint32(offset + 24, true),
+            blockTableSize: view.getUint32(offset + 28, true)
+        };
+        if (header.hashTableSize === 0 || (header.hashTableSize & (header.hashTableSize - 1)) !== 0) {
+            throw new Error(`MPQ hash table size ${header.hashTableSize} is not a power of two`);
+        }
+        // Protected maps often claim more entries than the file holds; read what is there
+        const hashTable = MpqArchive.readTable(bytes, offset + header.hashTablePos, header.hashTableSize, hashString('(hash table)', 3), HASH_ENTRY_EMPTY);
+        const blockCount = Math.min(header.blockTableSize, Math.max(0, Math.floor((bytes.length - offset - header.blockTablePos) / 16)));
+        const blockTable = MpqArchive.readTable(bytes, offset + header.blockTablePos, blockCount, hashString('(block table)', 3), 0);
+        return new MpqArchive(bytes, { ...header, blockTableSize: blockCount }, hashTable, blockTable);
+    }
+
+    has(name: string): boolean {
+        return this.findBlock(name) >= 0;
+    }
+
+    async read(name: string): Promise<Uint8Array> {
+        const block = this.findBlock(name);
+        if (block < 0) throw new Error(`'${name}' is not in the archive`);
+        const [offset, compressedSize, fileSize, flags] = this.blockTable.subarray(block * 4, block * 4 + 4);
+        if (flags & FILE_IMPLODE) throw new Error(`'${name}' uses PKWARE implode compression, which is not supported`);
+        const start = this.header.offset + offset;
+        if (start + compressedSize > this.bytes.length) throw new Error(`'${name}' extends past the end of the archive`);
+
+        let key = 0;
+        if (flags & FILE_ENCRYPTED) {
+            key = hashString(name.replace(/^.*[\\/]/, ''), 3);
+            if (flags & FILE_FIX_KEY) key = ((key + offset) ^ fileSize) >>> 0;
+        }
+        const compressed = (flags & FILE_COMPRESS) !== 0;
+
+        if (flags & FILE_SINGLE_UNIT) {
+            const data = this.bytes.slice(start, start + compressedSize);
+            if (flags & FILE_ENCRYPTED) cryptBlock(data, key);
+            return compressed && compressedSize < fileSize ? MpqArchive.decompress(data, fileSize) : data;
+        }
+
+        const { sectorSize } = this.header;
+        const sectorCount = Math.ceil(fileSize / sectorSize);
+        let sectorOffsets: Uint32Array;
+        if (compressed) {
+            const table = this.bytes.slice(start, start + (sectorCount + 1) * 4);
+            if (flags & FILE_ENCRYPTED) cryptBlock(table, key - 1);
+            sectorOffsets = new Uint32Array(table.buffer, table.byteOffset, sectorCount + 1);
+        } else {
+            sectorOffsets = Uint32Array.from({ length: sectorCount + 1 }, (_, i) => Math.min(i * sectorSize, fileSize));
+        }
+
+        const out = new Uint8Array(fileSize);
+        for (let i = 0; i < sectorCount; i++) {
+            const expected = Math.min(sectorSize, fileSize - i * sectorSize);
+            const sector = this.bytes.slice(start + sectorOffsets[i], start + sectorOffsets[i + 1]);
+            if (flags & FILE_ENCRYPTED) cryptBlock(sector, key + i);
+            const data = compressed && sector.length < expected ? await MpqArchive.decompress(sector, expected) : sector;
+            if (data.length !== expected) throw new Error(`'${name}' sector ${i} is ${data.length} bytes, expected ${expected}`);
+            out.set(data, i * sectorSize);
+        }
+        return out;
+    }
+
+    /**
+     * A copy of the archive with each of `files` replaced (or added). Every
+     * other file keeps its bytes and position: the new data and rewritten
+     * tables are appended after the original content.
+     */
+    async replace(files: Record<string, Uint8Array>): Promise<Uint8Array> {
+        const { header } = this;
+        if (header.formatVersion > 1) throw new Error(`Writing MPQ format version ${header.formatVersion} archives is not supported`);
+
+        const hashTable = this.hashTable.slice();
+        let blockTable = this.blockTable.slice();
+        const blobs: Uint8Array[] = [];
+        let position = this.bytes.length - header.offset;
+        for (const [name, data] of Object.entries(files)) {
+            const blob = await this.packFile(data);
+            let block = this.findBlock(name);
+            if (block < 0) {
+                const slot = this.findFreeSlot(name, hashTable);
+                if (slot < 0) throw new Error("The archive's hash table is full");
+                block = blockTable.length / 4;
+                const grown = new Uint32Array(blockTable.length + 4);
+                grown.set(blockTable);
+                blockTable = grown;
+                hashTable.set([hashString(name, 1), hashString(name, 2), 0, block], slot * 4);
+            }
+            blockTable.set([position, blob.length, data.length, (FILE_EXISTS | FILE_COMPRESS) >>> 0], block * 4);
+            blobs.push(blob);
+            position += blob.length;
+        }
+        const hashTablePos = position;
+        const blockTablePos = hashTablePos + hashTable.byteLength;
+
+        const out = new Uint8Array(header.offset + blockTablePos + blockTable.byteLength);
+        out.set(this.bytes);
+        let p = this.bytes.length;
+        for (const blob of blobs) {
+            out.set(blob, p);
+            p += blob.length;
+        }
+        const writeTable = (table: Uint32Array, key: number) => {
+            const bytes = new Uint8Array(table.buffer.slice(table.byteOffset, table.byteOffset + table.byteLength));
+            cryptBlock(bytes, key, true);
+            out.set(bytes, p);
+            p += bytes.length;
+        };
+        writeTable(hashTable, hashString('(hash table)', 3));
+        writeTable(blockTable, hashString('(block table)', 3));
+
+        const view = new DataView(out.buffer);
+        view.setUint32(header.offset + 8, out.length - header.offset, true);
+        view.setUint32(header.offset + 16, hashTablePos, true);
+        view.setUint32(header.offset + 20, blockTablePos, true);
+        view.setUint32(header.offset + 28, blockTable.length / 4, true);
+        if (header.formatVersion === 1 && header.headerSize >= 0x2C) {
+            // Drop the high parts of the table positions and any extended block table
+            view.setBigUint64(header.offset + 0x20, 0n, true);
+            view.setUint16(header.offset + 0x28, 0, true);
+            view.setUint16(header.offset + 0x2A, 0, true);
+        }
+        return out;
+    }
+
+    /** Sector offset table plus zlib-compressed sectors; sectors that do not shrink are stored raw. */
+    private async packFile(data: Uint8Array): Promise<Uint8Array> {
+        const sectors: Uint8Array[] = [];
+        for (let p = 0; p < data.length; p += this.header.sectorSize) {
+            const sector = data.subarray(p, p + this.header.sectorSize);
+            const packed = await deflate(sector);
+            if (packed.length + 1 < sector.length) {
+                const stored = new Uint8Array(packed.length + 1);
+                stored[0] = COMPRESSION_ZLIB;
+                stored.set(packed, 1);
+                sectors.push(stored);
+            } else {
+                sectors.push(sector);
+            }
+        }
+        const offsetTable = new Uint32Array(sectors.length + 1);
+        offsetTable[0] = offsetTable.byteLength;
+        sectors.forEach((s, i) => { offsetTable[i + 1] = offsetTable[i] + s.length; });
+
+        const blob = new Uint8Array(offsetTable[sectors.length]);
+        blob.set(new Uint8Array(offsetTable.buffer));
+        sectors.forEach((s, i) => blob.set(s, offsetTable[i]));
+        return blob;
+    }
+
+    private static findHeader(bytes: Uint8Array): number {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        for (let offset = 0; offset + 32 <= bytes.length; offset += HEADER_ALIGNMENT) {
+            const magic = view.getUint32(offset, true);
+            if (magic === HEADER_MAGIC) return offset;
+            if (magic === USER_DATA_MAGIC) {
+                const target = offset + view.getUint32(offset + 8, true);
+                if (target + 32 <= bytes.length && view.getUint32(target, true) === HEADER_MAGIC) return target;
+            }
+        }
+        return -1;
+    }
+
+    /** Reads and decrypts `entries` 16-byte entries; entries past the end of the file get `fill`. */
+    private static readTable(bytes: Uint8Array, position: number, entries: number, key: number, fill: number): Uint32Array {
+        const raw = new Uint8Array(entries * 16).fill(fill & 0xFF);
+        const available = Math.max(0, Math.min(raw.length, bytes.length - position));
+        raw.set(bytes.subarray(position, position + available));
+        cryptBlock(raw.subarray(0, available - available % 4), key);
+        return new Uint32Array(raw.buffer);
+    }
+
+    private findBlock(name: string): number {
+        const mask = this.header.hashTableSize - 1;
+        const nameA = hashString(name, 1), nameB = hashString(name, 2);
+        const start = hashString(name, 0) & mask;
+        for (let i = 0; i <= mask; i++) {
+            const entry = ((start + i) & mask) * 4;
+            const block = this.hashTable[entry + 3];
+            if (block === HASH_ENTRY_EMPTY) return -1;
+            if (this.hashTable[entry] === nameA && this.hashTable[entry + 1] === nameB && block < this.blockTable.length / 4) {
+                if (this.blockTable[block * 4 + 3] & FILE_EXISTS) return block;
+            }
+        }
+        return -1;
+    }
+
+    private findFreeSlot(name: string, hashTable: Uint32Array): number {
+        const mask = this.header.hashTableSize - 1;
+        const start = hashString(name, 0) & mask;
+        for (let i = 0; i <= mask; i++) {
+            const slot = (start + i) & mask;
+            const block = hashTable[slot * 4 + 3];
+            if (block === HASH_ENTRY_EMPTY || block === HASH_ENTRY_DELETED) return slot;
+        }
+        return -1;
+    }
+
+    /** One compressed sector or single-unit file: a mask byte naming the method, then the data. */
+    private static async decompress(data: Uint8Array, expected: number): Promise<Uint8Array> {
+        const method = data[0];
+        const payload = data.subarray(1);
+        let out: Uint8Array;
+        if (method === COMPRESSION_ZLIB) out = await inflate(payload);
+        else if (method === COMPRESSION_BZIP2) out = Bzip2.decompress(payload);
+        else throw new Error(`Unsupported MPQ compression 0x${method.toString(16)}`);
+        if (out.length !== expected) throw new Error(`Decompressed ${out.length} bytes, expected ${expected}`);
+        return out;
+    }
+}
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { W3E } from './TerrainUtil';
+import PaletteTools, { PaletteKind, PaletteEdit, MAX_PALETTE_SIZE } from './PaletteTools';
+import TilesetCatalog from './TilesetCatalog';
+
+interface PaletteManagerProps {
+    terrain: W3E;
+    onApply: (label: string, kind: PaletteKind, edit: PaletteEdit) => void;
+    onError: (message: string) => void;
+    onClose: () => void;
+}
+
+const SECTIONS: { kind: PaletteKind; title: string }[] = [
+    { kind: 'ground', title: 'Ground Tiles' },
+    { kind: 'cliff', title: 'Cliff Tiles' }
+];
+
+const PaletteManager: React.FC<PaletteManagerProps> = ({ terrain, onApply, onError, onClose }) => {
+    const [newTile, setNewTile] = useState<Record<PaletteKind, string>>({ ground: '', cliff: '' });
+
+    const run = (label: string, kind: PaletteKind, edit: () => PaletteEdit): boolean => {
+        try {
+            onApply(label, kind, edit());
+            return true;
+        } catch (err: any) {
+            onError(err.message || "Palette edit failed");
+            return false;
+        }
+    };
+
+    const tileset = TilesetCatalog.getTileset(terrain.header.baseTileset);
+    const foreign = TilesetCatalog.findForeignTiles(terrain);
+
+    const countUsage = (kind: PaletteKind): number[] => {
+        const counts = new Array(MAX_PALETTE_SIZE).fill(0);
+        const field = kind === 'ground' ? 'groundTexture' : 'cliffTexture';
+        for (let i = 0; i < terrain.corners.length; i++) counts[terrain.corners.getField(i, field)]++;
+        return counts;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[200] flex items-center justify-center" onMouseDown={onClose}>
+            <div className="bg-gray-900 border border-white/10 rounded-3xl shadow-2xl w-[560px] max-h-[80vh] flex flex-col overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-white/5 flex justify-between items-center shrink-0">
+                    <h2 className="text-[10px] font-black text-gray-400 uppercase tracking-[0.3em]">Palette Manager</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+                </header>
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 grid grid-cols-2 gap-4">
+                    {SECTIONS.map(({ kind, title }) => {
+                        const tiles = PaletteTools.getPalette(terrain, kind);
+                        const usage = countUsage(kind);
+                        const suggestions = (kind === 'ground' ? tileset?.ground : tileset?.cliffs) ?? [];
+                        const lookup = (id: string) => kind === 'ground' ? TilesetCatalog.getGroundTile(id) : TilesetCatalog.getCliffTile(id);
+                        return (
+                            <section key={kind} className="flex flex-col gap-1">
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{title}</span>
+                                    <span className="text-[8px] font-mono text-gray-600">{tiles.length}/{MAX_PALETTE_SIZE}</span>
+                                </div>
+                                {tiles.map((tile, i) => (
+                                    <div key={`${tile}-${i}`} className="flex items-center gap-1 bg-black/20 rounded-lg px-2 py-1">
+                                        <span className="w-5 text-[9px] font-mono text-gray-600">{i}</span>
+                                        <div className="w-3 h-3 rounded-sm border border-white/10 shrink-0" style={{ backgroundColor: lookup(tile)?.color ?? 'transparent' }} />
+                                        <input
+                                            defaultValue={tile}
+                                            maxLength={4}
+                                            onBlur={(e) => {
+                                                const id = e.target.value;
+                                                if (id !== tile && !run(`Replace ${tile} with ${id}`, kind, () => PaletteTools.replaceTile(terrain, kind, i, id))) {
+                                                    e.target.value = tile;
+                                                }
+                                            }}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                                            className="w-14 bg-transparent border border-white/10 rounded px-1 text-[10px] font-mono text-gray-300"
+                                        />
+                                        <span className="flex-1 truncate text-[8px] text-gray-500">
+                                            {lookup(tile)?.name ?? 'Unknown'}
+                                            {foreign.some(f => f.kind === kind && f.index === i) && (
+                                                <span className="text-amber-400 ml-1" title={`Not part of the ${tileset?.name ?? terrain.header.baseTileset} tileset`}>⚠</span>
+                                            )}
+                                        </span>
+                                        <span className="text-right text-[8px] font-mono text-gray-600" title="Corners using this tile">{usage[i]}</span>
+                                        <button
+                                            disabled={i === 0}
+                                            onClick={() => run(`Move ${tile} Up`, kind, () => PaletteTools.moveTile(terrain, kind, i, i - 1))}
+                                            className="px-1 text-gray-500 hover:text-white disabled:opacity-20 text-[10px]"
+                                        >▲</button>
+                                        <button
+                                            disabled={i === tiles.length - 1}
+                                            onClick={() => run(`Move ${tile} Down`, kind, () => PaletteTools.moveTile(terrain, kind, i, i + 1))}
+                                            className="px-1 text-gray-500 hover:text-white disabled:opacity-20 text-[10px]"
+                                        >▼</button>
+                                        <button
+                                            disabled={tiles.length <= 1}
+                                            onClick={() => run(`Remove ${tile}`, kind, () => PaletteTools.removeTile(terrain, kind, i))}
+                                            className="px-1 text-red-500/60 hover:text-red-400 disabled:opacity-20 text-[10px]"
+                                            title="Remove (corners fall back to slot 0)"
+                                        >✕</button>
+                                    </div>
+                                ))}
+                                {tiles.length < MAX_PALETTE_SIZE && (
+                                    <div className="flex gap-1 mt-1">
+                                        <input
+                                            value={newTile[kind]}
+                                            maxLength={4}
+                                            placeholder="ID"
+                                            list={`palette-suggestions-${kind}`}
+                                            onChange={(e) => setNewTile({ ...newTile, [kind]: e.target.value })}
+                                            className="flex-1 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-mono text-gray-300"
+                                        />
+                                        <button
+                                            onClick={() => {
+                                                if (run(`Add ${newTile[kind]}`, kind, () => PaletteTools.addTile(terrain, kind, newTile[kind]))) {
+                                                    setNewTile({ ...newTile, [kind]: '' });
+                                                }
+                                            }}
+                                            className="px-3 rounded-lg bg-emerald-600/20 text-emerald-400 text-[9px] font-black uppercase tracking-widest hover:bg-emerald-600/30"
+                                        >
+                                            Add
+                                        </button>
+                                        <datalist id={`palette-suggestions-${kind}`}>
+                                            {suggestions.filter(t => !tiles.includes(t.id)).map(t => (
+                                                <option key={t.id} value={t.id}>{t.name}</option>
+                                            ))}
+                                        </datalist>
+                                    </div>
+                                )}
+                            </section>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PaletteManager;
@@ -0,0 +1,79 @@
+import { ColorMapping, MIN_SLOT_WEIGHT, MAX_SLOT_WEIGHT } from "./ImageMapping";
+
+export const PRESET_FORMAT = 'w3e-texturizer-palette';
+export const PRESET_VERSION = 1;
+
+/** One image color and the tile it stands for. */
+export interface PresetEntry {
+    tileId: string;
+    color: string;
+    weight: number;
+}
+
+export interface PalettePreset {
+    name: string;
+    entries: PresetEntry[];
+}
+
+interface PresetFileV1 extends PalettePreset {
+    format: typeof PRESET_FORMAT;
+    version: 1;
+}
+
+/**
+ * Shareable slot colors. Entries are keyed by tile ID, not slot index, so a
+ * preset lands on the right slots of a map whose palette is ordered differently.
+ */
+export default class PalettePresets {
+    /** The active slots of `mappings`; `tilePalette` names each slot's tile (falls back to the mapping's own texture ID). */
+    static create(name: string, mappings: ColorMapping[], tilePalette: string[] | undefined): PalettePreset {
+        const entries: PresetEntry[] = [];
+        mappings.forEach((m, slot) => {
+            const tileId = tilePalette ? tilePalette[slot] : m.textureId;
+            if (!m.active || !tileId || entries.some(e => e.tileId === tileId)) return;
+            entries.push({ tileId, color: m.color, weight: m.weight });
+        });
+        return { name, entries };
+    }
+
+    static serialize(preset: PalettePreset): string {
+        const file: PresetFileV1 = { format: PRESET_FORMAT, version: PRESET_VERSION, ...preset };
+        return JSON.stringify(file, null, 2);
+    }
+
+    static parse(text: string): PalettePreset {
+        let file: PresetFileV1;
+        try {
+            file = JSON.parse(text);
+        } catch {
+            throw new Error("Not a palette preset: it is not valid JSON");
+        }
+        if (file?.format !== PRESET_FORMAT) throw new Error("Not a palette preset");
+        if (file.version > PRESET_VERSION) throw new Error(`The preset was saved by a newer version (format ${file.version})`);
+        if (!Array.isArray(file.entries)) throw new Error("Preset has no entries");
+        const entries = file.entries.map((e, i) => {
+            if (typeof e.tileId !== 'string' || e.tileId.length !== 4) throw new Error(`Entry ${i} has an invalid tile ID: ${e.tileId}`);
+            if (!/^#[a-f\d]{6}$/i.test(e.color)) throw new Error(`Entry ${i} has an invalid color: ${e.color}`);
+            return { tileId: e.tileId, color: e.color.toLowerCase(), weight: Math.min(MAX_SLOT_WEIGHT, Math.max(MIN_SLOT_WEIGHT, e.weight ?? 1)) };
+        });
+        return { name: String(file.name ?? 'Preset'), entries };
+    }
+
+    /**
+     * Sets color and weight on every slot whose tile has an entry and marks it
+     * active; other slots are left alone. `missing` lists tiles the palette lacks.
+     */
+    static apply(preset: PalettePreset, mappings: ColorMapping[], tilePalette: string[] | undefined): { mappings: ColorMapping[]; applied: number; missing: string[] } {
+        const used = new Set<string>();
+        let applied = 0;
+        const next = mappings.map((m, slot) => {
+            const tileId = tilePalette ? tilePalette[slot] : m.textureId;
+            const entry = preset.entries.find(e => e.tileId === tileId);
+            if (!entry) return m;
+            used.add(entry.tileId);
+            applied++;
+            return { ...m, color: entry.color, weight: entry.weight, active: true };
+        });
+        return { mappings: next, applied, missing: preset.entries.map(e => e.tileId).filter(id => !used.has(id)) };
+    }
+}
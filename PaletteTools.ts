@@ -0,0 +1,129 @@
+import { W3E } from "./TerrainUtil";
+
+export type PaletteKind = 'ground' | 'cliff';
+
+// Both texture indices are stored in 4 bits per corner
+export const MAX_PALETTE_SIZE = 16;
+
+/**
+ * Result of a palette edit: the updated terrain plus, for every slot of the new
+ * palette, the slot it came from in the old one (-1 for newly added tiles).
+ */
+export interface PaletteEdit {
+    w3e: W3E;
+    order: number[];
+}
+
+const TILE_ID_PATTERN = /^[A-Za-z0-9_]{4}$/;
+
+export default class PaletteTools {
+    static getPalette(w3e: W3E, kind: PaletteKind): string[] {
+        return kind === 'ground' ? w3e.header.tilePalette : w3e.header.cliffTilePalette;
+    }
+
+    static addTile(w3e: W3E, kind: PaletteKind, id: string): PaletteEdit {
+        const tiles = PaletteTools.getPalette(w3e, kind);
+        PaletteTools.assertTileId(id);
+        if (tiles.length >= MAX_PALETTE_SIZE) throw new Error(`Palette is full (${MAX_PALETTE_SIZE} tiles max).`);
+        if (tiles.includes(id)) throw new Error(`Tile '${id}' is already in the palette.`);
+
+        const order = tiles.map((_, i) => i);
+        order.push(-1);
+        return { w3e: PaletteTools.rebuild(w3e, kind, [...tiles, id], order, 0), order };
+    }
+
+    /** Removes a tile; corners that used it fall back to the first remaining tile. */
+    static removeTile(w3e: W3E, kind: PaletteKind, index: number): PaletteEdit {
+        const tiles = PaletteTools.getPalette(w3e, kind);
+        PaletteTools.assertIndex(tiles, index);
+        if (tiles.length <= 1) throw new Error("A palette needs at least one tile.");
+
+        const order = tiles.map((_, i) => i).filter(i => i !== index);
+        const nextTiles = order.map(i => tiles[i]);
+        return { w3e: PaletteTools.rebuild(w3e, kind, nextTiles, order, 0), order };
+    }
+
+    static moveTile(w3e: W3E, kind: PaletteKind, from: number, to: number): PaletteEdit {
+        const tiles = PaletteTools.getPalette(w3e, kind);
+        PaletteTools.assertIndex(tiles, from);
+        PaletteTools.assertIndex(tiles, to);
+
+        const order = tiles.map((_, i) => i);
+        const [moved] = order.splice(from, 1);
+        order.splice(to, 0, moved);
+        const nextTiles = order.map(i => tiles[i]);
+        return { w3e: PaletteTools.rebuild(w3e, kind, nextTiles, order, 0), order };
+    }
+
+    /** Swaps the tile ID of a slot in place; corner indices are untouched. */
+    static replaceTile(w3e: W3E, kind: PaletteKind, index: number, id: string): PaletteEdit {
+        const tiles = PaletteTools.getPalette(w3e, kind);
+        PaletteTools.assertIndex(tiles, index);
+        PaletteTools.assertTileId(id);
+        if (tiles.some((t, i) => t === id && i !== index)) throw new Error(`Tile '${id}' is already in the palette.`);
+
+        const nextTiles = [...tiles];
+        nextTiles[index] = id;
+        const order = tiles.map((_, i) => i);
+        return { w3e: PaletteTools.rebuild(w3e, kind, nextTiles, order, 0), order };
+    }
+
+    /**
+     * Maps the `used` slots of a palette from another map onto `target` by tile ID,
+     * appending tiles the target lacks. `palette` is `target` itself when nothing
+     * was appended. Throws when a missing tile does not fit.
+     */
+    static mapSlots(source: string[], used: Set<number>, target: string[], kind: PaletteKind): { map: number[]; palette: string[] } {
+        let palette = target;
+        const map = source.map((id, slot) => {
+            if (!used.has(slot)) return slot;
+            let index = palette.indexOf(id);
+            if (index < 0) {
+                if (palette.length >= MAX_PALETTE_SIZE) {
+                    throw new Error(`The ${kind} palette is full and has no slot for '${id}'.`);
+                }
+                palette = [...palette, id];
+                index = palette.length - 1;
+            }
+            return index;
+        });
+        return { map, palette };
+    }
+
+    /**
+     * Writes a new palette and remaps the matching texture field on every corner.
+     * Corners pointing at a dropped slot go to `fallback`; indices that were already
+     * outside the old palette are left as they are.
+     */
+    private static rebuild(w3e: W3E, kind: PaletteKind, tiles: string[], order: number[], fallback: number): W3E {
+        const oldCount = PaletteTools.getPalette(w3e, kind).length;
+        const remap = Array.from({ length: oldCount }, () => fallback);
+        order.forEach((oldIndex, newIndex) => {
+            if (oldIndex >= 0) remap[oldIndex] = newIndex;
+        });
+
+        const field = kind === 'ground' ? 'groundTexture' : 'cliffTexture';
+        const identity = remap.every((n, o) => n === o);
+        let corners = w3e.corners;
+        if (!identity) {
+            corners = corners.clone();
+            for (let i = 0; i < corners.length; i++) {
+                const current = corners.getField(i, field);
+                if (current < oldCount && remap[current] !== current) corners.setField(i, field, remap[current]);
+            }
+        }
+
+        const header = kind === 'ground'
+            ? { ...w3e.header, tilePalette: tiles, tilePaletteCount: tiles.length }
+            : { ...w3e.header, cliffTilePalette: tiles, cliffTilePaletteCount: tiles.length };
+        return { ...w3e, header, corners };
+    }
+
+    private static assertIndex(tiles: string[], index: number): void {
+        if (index < 0 || index >= tiles.length) throw new Error(`Palette slot ${index} does not exist.`);
+    }
+
+    private static assertTileId(id: string): void {
+        if (!TILE_ID_PATTERN.test(id)) throw new Error(`'${id}' is not a valid 4-character tile ID.`);
+    }
+}
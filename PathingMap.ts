@@ -0,0 +1,186 @@
+import BitStream from "./BitStream";
+import { W3E } from "./TerrainUtil";
+
+/** Decoded war3map.wpm. Cells run left to right, bottom row first, like W3E corners. */
+export interface WPM {
+    fileId: string;
+    version: number;
+    width: number;
+    height: number;
+    cells: Uint8Array;
+}
+
+export const WPM_FILE_ID = "MP3W";
+export const WPM_ARCHIVE_PATH = 'war3map.wpm';
+export const CELLS_PER_TILE = 4;
+
+// Cell flags; a set bit takes the ability away
+export const PATH_NO_WALK = 0x02;
+export const PATH_NO_FLY = 0x04;
+export const PATH_NO_BUILD = 0x08;
+export const PATH_BLIGHT = 0x20;
+export const PATH_NO_WATER = 0x40;
+
+/** Bits regenerate() recomputes from the terrain; everything else in a cell is carried over. */
+const TERRAIN_BITS = PATH_NO_WALK | PATH_NO_FLY | PATH_NO_BUILD | PATH_BLIGHT | PATH_NO_WATER;
+const BLOCKER_BITS = PATH_NO_WALK | PATH_NO_FLY | PATH_NO_BUILD;
+
+/** Water deeper than this (world units) is deep water, which ground units cannot cross. */
+export const DEEP_WATER_DEPTH = 64;
+
+/** Ground tiles that restrict pathing on their own. */
+const TILE_PATHING: Record<string, number> = {
+    Oaby: PATH_NO_WALK | PATH_NO_BUILD, // Outland Abyss
+    Dlav: PATH_NO_BUILD,
+    Glav: PATH_NO_BUILD
+};
+
+export type PathingLayer = 'walk' | 'fly' | 'build' | 'water' | 'blight';
+
+export const PATHING_LAYERS: { id: PathingLayer; label: string; bit: number; color: [number, number, number] }[] = [
+    { id: 'walk', label: 'Unwalkable', bit: PATH_NO_WALK, color: [239, 68, 68] },
+    { id: 'fly', label: 'Unflyable', bit: PATH_NO_FLY, color: [168, 85, 247] },
+    { id: 'build', label: 'Unbuildable', bit: PATH_NO_BUILD, color: [250, 204, 21] },
+    { id: 'water', label: 'Water', bit: PATH_NO_WATER, color: [59, 130, 246] },
+    { id: 'blight', label: 'Blight', bit: PATH_BLIGHT, color: [132, 204, 22] }
+];
+
+/**
+ * The pathing map: four cells per tile side, one byte of walk/fly/build
+ * flags each. The terrain-derived part can be rebuilt from corner data;
+ * blockers placed by doodads and destructibles are kept from the loaded file.
+ */
+export default class PathingMap {
+    /** Cell grid size for a terrain; the closing corner row and column add no cells. */
+    static sizeFor(w3e: W3E): { width: number; height: number } {
+        return { width: (w3e.header.width - 1) * CELLS_PER_TILE, height: (w3e.header.height - 1) * CELLS_PER_TILE };
+    }
+
+    static matches(wpm: WPM, w3e: W3E): boolean {
+        const size = PathingMap.sizeFor(w3e);
+        return wpm.width === size.width && wpm.height === size.height;
+    }
+
+    static decode(buffer: Uint8Array): WPM {
+        const bitstream = new BitStream(buffer);
+        if (buffer.length < 16) throw new Error(`Pathing map is ${buffer.length} bytes, too short for a header`);
+        const fileId = bitstream.readString32();
+        if (fileId !== WPM_FILE_ID) throw new Error(`File ID '${fileId}' is not ${WPM_FILE_ID}`);
+        const version = bitstream.readUInt32();
+        const width = bitstream.readUInt32();
+        const height = bitstream.readUInt32();
+        const cells = bitstream.readBytes(width * height);
+        if (cells.length !== width * height) {
+            throw new Error(`Pathing map ends after ${cells.length} of ${width * height} cells (${width}x${height})`);
+        }
+        return { fileId, version, width, height, cells };
+    }
+
+    static encode(wpm: WPM): Uint8Array {
+        if (wpm.cells.length !== wpm.width * wpm.height) {
+            throw new Error(`Pathing map holds ${wpm.cells.length} cells, expected ${wpm.width * wpm.height}`);
+        }
+        const bitstream = new BitStream();
+        bitstream.writeString32(wpm.fileId);
+        bitstream.writeUInt32(wpm.version);
+        bitstream.writeUInt32(wpm.width);
+        bitstream.writeUInt32(wpm.height);
+        bitstream.writeBytes(wpm.cells);
+        return bitstream.getBuffer();
+    }
+
+    /**
+     * Pathing implied by the terrain alone. Each corner governs the 4x4 cells
+     * centred on it; tiles whose corners sit on different cliff levels are
+     * blocked unless they are ramps, which stay walkable but unbuildable.
+     */
+    static derive(w3e: W3E): Uint8Array {
+        const { width, height } = w3e.header;
+        const { corners } = w3e;
+        const size = PathingMap.sizeFor(w3e);
+        const cells = new Uint8Array(size.width * size.height);
+        const tileFlags = w3e.header.tilePalette.map(id => TILE_PATHING[id] ?? 0);
+        const half = CELLS_PER_TILE / 2;
+
+        const fill = (x0: number, y0: number, x1: number, y1: number, bits: number) => {
+            for (let y = Math.max(0, y0); y < Math.min(size.height, y1); y++) {
+                for (let x = Math.max(0, x0); x < Math.min(size.width, x1); x++) cells[y * size.width + x] |= bits;
+            }
+        };
+
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                const i = row * width + col;
+                let bits = tileFlags[corners.getField(i, 'groundTexture')] ?? 0;
+                const depth = corners.getField(i, 'waterHeight') - corners.getWorldHeight(i);
+                if (corners.getField(i, 'water') && depth > 0) {
+                    bits |= PATH_NO_BUILD;
+                    if (depth > DEEP_WATER_DEPTH) bits |= PATH_NO_WALK;
+                } else {
+                    bits |= PATH_NO_WATER;
+                }
+                if (corners.getField(i, 'blight')) bits |= PATH_BLIGHT;
+                if (corners.getField(i, 'boundary')) bits |= PATH_NO_WALK | PATH_NO_FLY | PATH_NO_BUILD;
+                const x = col * CELLS_PER_TILE, y = row * CELLS_PER_TILE;
+                fill(x - half, y - half, x + half, y + half, bits);
+            }
+        }
+
+        for (let row = 0; row + 1 < height; row++) {
+            for (let col = 0; col + 1 < width; col++) {
+                const tile = [row * width + col, row * width + col + 1, (row + 1) * width + col, (row + 1) * width + col + 1];
+                const layer = corners.getField(tile[0], 'layerHeight');
+                if (tile.every(i => corners.getField(i, 'layerHeight') === layer)) continue;
+                const ramp = tile.some(i => corners.getField(i, 'ramp'));
+                const x = col * CELLS_PER_TILE, y = row * CELLS_PER_TILE;
+                fill(x, y, x + CELLS_PER_TILE, y + CELLS_PER_TILE, ramp ? PATH_NO_BUILD : PATH_NO_WALK | PATH_NO_BUILD);
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * What the terrain does not explain: blocker bits set in `wpm` beyond
+     * those derive(w3e) produces (doodads, destructibles), plus any bits
+     * regenerate() never touches. `w3e` is the terrain the file was saved with.
+     */
+    static extractBlockers(wpm: WPM, w3e: W3E): Uint8Array {
+        if (!PathingMap.matches(wpm, w3e)) {
+            const size = PathingMap.sizeFor(w3e);
+            throw new Error(`Pathing map is ${wpm.width}x${wpm.height} cells; this terrain needs ${size.width}x${size.height}`);
+        }
+        const derived = PathingMap.derive(w3e);
+        return wpm.cells.map((cell, i) => (cell & ~TERRAIN_BITS) | (cell & ~derived[i] & BLOCKER_BITS));
+    }
+
+    /** A pathing map for the edited terrain, with `blockers` (from extractBlockers) laid on top when the size still fits. */
+    static regenerate(w3e: W3E, blockers: Uint8Array | null, base?: WPM): WPM {
+        const { width, height } = PathingMap.sizeFor(w3e);
+        const cells = PathingMap.derive(w3e);
+        if (blockers && blockers.length === cells.length) {
+            for (let i = 0; i < cells.length; i++) cells[i] |= blockers[i];
+        }
+        return { fileId: base?.fileId ?? WPM_FILE_ID, version: base?.version ?? 0, width, height, cells };
+    }
+
+    /** RGBA pixels, one per cell and top row first, tinting the cells where `layer`'s bit is set. */
+    static render(wpm: WPM, layer: PathingLayer, alpha = 140): Uint8ClampedArray {
+        const { bit, color } = PATHING_LAYERS.find(l => l.id === layer)!;
+        // The water bit is set on dry land, so water cells are the ones without it
+        const invert = layer === 'water';
+        const pixels = new Uint8ClampedArray(wpm.width * wpm.height * 4);
+        for (let y = 0; y < wpm.height; y++) {
+            const src = y * wpm.width;
+            const dst = (wpm.height - 1 - y) * wpm.width;
+            for (let x = 0; x < wpm.width; x++) {
+                if (((wpm.cells[src + x] & bit) !== 0) === invert) continue;
+                const o = (dst + x) * 4;
+                pixels[o] = color[0];
+                pixels[o + 1] = color[1];
+                pixels[o + 2] = color[2];
+                pixels[o + 3] = alpha;
+            }
+        }
+        return pixels;
+    }
+}
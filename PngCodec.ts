@@ -0,0 +1,165 @@
+/** Raw PNG samples: rows top first, 16-bit samples big-endian as in the file. */
+export interface PngImage {
+    width: number;
+    height: number;
+    channels: 1 | 2 | 3 | 4; // gray, gray+alpha, RGB, RGBA
+    bitDepth: 8 | 16;
+    data: Uint8Array;
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+const CHANNELS_BY_COLOR_TYPE: Record<number, PngImage['channels']> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+const COLOR_TYPE_BY_CHANNELS: Record<PngImage['channels'], number> = { 1: 0, 2: 4, 3: 2, 4: 6 };
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const pipe = async (chunks: Uint8Array[], transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob(chunks).stream().pipeThrough(transform)).arrayBuffer());
+
+/**
+ * Minimal PNG reader/writer for what canvases cannot do: 16-bit samples.
+ * Handles non-interlaced gray, gray+alpha, RGB and RGBA at 8 or 16 bits;
+ * zlib work goes through the platform's (De)CompressionStream.
+ */
+export default class PngCodec {
+    /** Returns null for PNG flavours this codec does not handle (palette, sub-byte depths, interlaced). */
+    static async decode(bytes: Uint8Array): Promise<PngImage | null> {
+        if (bytes.length < 33 || SIGNATURE.some((b, i) => bytes[i] !== b)) return null;
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+        let width = 0, height = 0;
+        let channels: PngImage['channels'] | undefined;
+        let bitDepth = 0;
+        const idat: Uint8Array[] = [];
+        for (let p = 8; p + 8 <= bytes.length;) {
+            const length = view.getUint32(p);
+            const type = String.fromCharCode(bytes[p + 4], bytes[p + 5], bytes[p + 6], bytes[p + 7]);
+            const data = bytes.subarray(p + 8, p + 8 + length);
+            if (type === 'IHDR') {
+                width = view.getUint32(p + 8);
+                height = view.getUint32(p + 12);
+                bitDepth = data[8];
+                channels = CHANNELS_BY_COLOR_TYPE[data[9]];
+                const interlace = data[12];
+                if ((bitDepth !== 8 && bitDepth !== 16) || interlace !== 0 || !channels) return null;
+            } else if (type === 'IDAT') {
+                idat.push(data);
+            } else if (type === 'IEND') {
+                break;
+            }
+            p += 12 + length;
+        }
+        if (!channels || width === 0 || height === 0 || idat.length === 0) throw new Error("PNG has no image data");
+
+        const raw = await pipe(idat, new DecompressionStream('deflate'));
+        const bpp = channels * bitDepth / 8;
+        const stride = width * bpp;
+        if (raw.length < height * (stride + 1)) throw new Error("PNG image data is truncated");
+
+        return { width, height, channels, bitDepth: bitDepth as PngImage['bitDepth'], data: PngCodec.unfilter(raw, height, stride, bpp) };
+    }
+
+    /** Writes every row with filter type 0 (None). */
+    static async encode(image: PngImage): Promise<Uint8Array> {
+        const stride = image.width * image.channels * image.bitDepth / 8;
+        if (image.data.length !== stride * image.height) throw new Error("PNG sample buffer does not match its size");
+
+        const raw = new Uint8Array(image.height * (stride + 1));
+        for (let y = 0; y < image.height; y++) raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+
+        const ihdr = new Uint8Array(13);
+        const ihdrView = new DataView(ihdr.buffer);
+        ihdrView.setUint32(0, image.width);
+        ihdrView.setUint32(4, image.height);
+        ihdr[8] = image.bitDepth;
+        ihdr[9] = COLOR_TYPE_BY_CHANNELS[image.channels];
+
+        return PngCodec.concat([
+            new Uint8Array(SIGNATURE),
+            PngCodec.chunk('IHDR', ihdr),
+            PngCodec.chunk('IDAT', await pipe([raw], new CompressionStream('deflate'))),
+            PngCodec.chunk('IEND', new Uint8Array(0))
+        ]);
+    }
+
+    /** 8-bit RGBA pixels, as a canvas would return them (16-bit samples keep their high byte). */
+    static toRgba8(image: PngImage): { width: number; height: number; data: Uint8Array } {
+        const count = image.width * image.height;
+        const step = image.bitDepth / 8;
+        const out = new Uint8Array(count * 4);
+        for (let i = 0; i < count; i++) {
+            const sample = (c: number) => image.data[(i * image.channels + c) * step];
+            const gray = image.channels <= 2;
+            out[i * 4] = sample(0);
+            out[i * 4 + 1] = gray ? sample(0) : sample(1);
+            out[i * 4 + 2] = gray ? sample(0) : sample(2);
+            out[i * 4 + 3] = image.channels === 2 ? sample(1) : image.channels === 4 ? sample(3) : 255;
+        }
+        return { width: image.width, height: image.height, data: out };
+    }
+
+    private static chunk(type: string, data: Uint8Array): Uint8Array {
+        const out = new Uint8Array(12 + data.length);
+        const view = new DataView(out.buffer);
+        view.setUint32(0, data.length);
+        for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+        out.set(data, 8);
+        view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+        return out;
+    }
+
+    private static concat(parts: Uint8Array[]): Uint8Array {
+        const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            out.set(part, offset);
+            offset += part.length;
+        }
+        return out;
+    }
+
+    /** Reverses PNG scanline filters (None, Sub, Up, Average, Paeth). */
+    private static unfilter(raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+        const out = new Uint8Array(height * stride);
+        for (let y = 0; y < height; y++) {
+            const filter = raw[y * (stride + 1)];
+            const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+            const o = y * stride;
+            for (let x = 0; x < stride; x++) {
+                const a = x >= bpp ? out[o + x - bpp] : 0;
+                const b = y > 0 ? out[o - stride + x] : 0;
+                const c = x >= bpp && y > 0 ? out[o - stride + x - bpp] : 0;
+                let predictor = 0;
+                switch (filter) {
+                    case 0: predictor = 0; break;
+                    case 1: predictor = a; break;
+                    case 2: predictor = b; break;
+                    case 3: predictor = (a + b) >> 1; break;
+                    case 4: {
+                        const p = a + b - c;
+                        const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+                        predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+                        break;
+                    }
+                    default: throw new Error(`Unknown PNG filter type ${filter} on row ${y}`);
+                }
+                out[o + x] = (line[x] + predictor) & 0xFF;
+            }
+        }
+        return out;
+    }
+}
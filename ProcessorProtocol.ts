@@ -0,0 +1,55 @@
+import { W3E, W3EDiagnostic } from "./TerrainUtil";
+import CornerData from "./CornerData";
+import { MappingOptions, MappingTarget, PixelBuffer } from "./ImageMapping";
+
+/** A terrain as it crosses the worker boundary: CornerData does not survive cloning, its raw records do. */
+export interface PackedW3E {
+    header: W3E['header'];
+    corners: Uint8Array;
+}
+
+/** Payload and result of every job the processing worker runs. */
+export interface ProcessorJobs {
+    decode: {
+        payload: { bytes: Uint8Array };
+        result: { w3e: PackedW3E | null; diagnostics: W3EDiagnostic[] };
+    };
+    encode: {
+        payload: { w3e: PackedW3E; validate: boolean };
+        result: { bytes: Uint8Array };
+    };
+    validate: {
+        payload: { w3e: PackedW3E };
+        result: { diagnostics: W3EDiagnostic[] };
+    };
+    resampleArea: {
+        payload: { pixels: PixelBuffer; width: number; height: number };
+        result: { rgb: Float32Array };
+    };
+    mapToSlots: {
+        payload: { rgb: Float32Array; width: number; height: number; targets: MappingTarget[]; options: MappingOptions };
+        result: { slots: Uint8Array };
+    };
+}
+
+export type ProcessorJob = keyof ProcessorJobs;
+
+/** Main thread to worker. */
+export interface ProcessorRequest<K extends ProcessorJob = ProcessorJob> {
+    id: number;
+    job: K;
+    payload: ProcessorJobs[K]['payload'];
+}
+
+/** Worker to main thread. Every request gets progress messages followed by exactly one result or error, all naming its job. */
+export type ProcessorResponse<K extends ProcessorJob = ProcessorJob> =
+    | { id: number; job: K; kind: 'progress'; fraction: number }
+    | { id: number; job: K; kind: 'result'; result: ProcessorJobs[K]['result'] }
+    | { id: number; job: K; kind: 'error'; message: string; diagnostics?: W3EDiagnostic[] };
+
+export const packW3e = (w3e: W3E): PackedW3E => ({ header: w3e.header, corners: w3e.corners.toBytes() });
+
+export const unpackW3e = (packed: PackedW3E): W3E => ({
+    header: packed.header,
+    corners: CornerData.fromBytes(packed.header.width, packed.header.height, packed.corners)
+});
@@ -0,0 +1,59 @@
+import TerrainUtil, { W3EValidationError } from "./TerrainUtil";
+import ImageMapping, { ProgressCallback } from "./ImageMapping";
+import { ProcessorJob, ProcessorJobs, ProcessorRequest, ProcessorResponse, packW3e, unpackW3e } from "./ProcessorProtocol";
+
+/** Smallest progress step worth a message; finer steps would flood the main thread. */
+const PROGRESS_STEP = 0.01;
+
+type Handler<K extends ProcessorJob> = (payload: ProcessorJobs[K]['payload'], onProgress: ProgressCallback) => {
+    result: ProcessorJobs[K]['result'];
+    transfer: Transferable[];
+};
+
+const handlers: { [K in ProcessorJob]: Handler<K> } = {
+    decode: ({ bytes }, onProgress) => {
+        const report = TerrainUtil.decodeW3eStrict(bytes, onProgress);
+        const w3e = report.w3e ? packW3e(report.w3e) : null;
+        return { result: { w3e, diagnostics: report.diagnostics }, transfer: w3e ? [w3e.corners.buffer] : [] };
+    },
+    encode: ({ w3e, validate }, onProgress) => {
+        const bytes = TerrainUtil.encodeW3e(unpackW3e(w3e), validate, onProgress);
+        return { result: { bytes }, transfer: [bytes.buffer] };
+    },
+    validate: ({ w3e }, onProgress) => ({ result: { diagnostics: TerrainUtil.validateW3e(unpackW3e(w3e), onProgress) }, transfer: [] }),
+    resampleArea: ({ pixels, width, height }, onProgress) => {
+        const rgb = ImageMapping.resampleArea(pixels, width, height, onProgress);
+        return { result: { rgb }, transfer: [rgb.buffer] };
+    },
+    mapToSlots: ({ rgb, width, height, targets, options }, onProgress) => {
+        const slots = ImageMapping.mapToSlots(rgb, width, height, targets, options, onProgress);
+        return { result: { slots }, transfer: [slots.buffer] };
+    }
+};
+
+const post = <K extends ProcessorJob>(response: ProcessorResponse<K>, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+const run = <K extends ProcessorJob>({ id, job, payload }: ProcessorRequest<K>) => {
+    let reported = 0;
+    const onProgress = (fraction: number) => {
+        if (fraction - reported < PROGRESS_STEP) return;
+        reported = fraction;
+        post({ id, job, kind: 'progress', fraction });
+    };
+
+    try {
+        const handler: Handler<K> = handlers[job];
+        const { result, transfer } = handler(payload, onProgress);
+        post({ id, job, kind: 'result', result }, transfer);
+    } catch (err: any) {
+        post({
+            id,
+            job,
+            kind: 'error',
+            message: err?.message ?? String(err),
+            diagnostics: err instanceof W3EValidationError ? err.diagnostics : undefined
+        });
+    }
+};
+
+self.onmessage = (e: MessageEvent<ProcessorRequest>) => run(e.data);
@@ -0,0 +1,71 @@
+import ImageMapping, { ColorMapping, MappingOptions } from "./ImageMapping";
+import { toBase64, fromBase64 } from "./SelectionTools";
+
+export const PROJECT_FORMAT = 'w3e-texturizer-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.w3eproj';
+
+/**
+ * Everything needed to pick up work on a map elsewhere. The terrain is an
+ * encoded war3map.w3e; encoding and decoding it is left to the caller, which
+ * can run it off the main thread.
+ */
+export interface Project {
+    name: string;
+    terrain: Uint8Array | null;
+    image: { name: string; type: string; bytes: Uint8Array } | null;
+    mappings: ColorMapping[];
+    mappingOptions: MappingOptions; // how the image is fitted onto the map
+}
+
+/** On-disk layout of version 1: JSON, with the terrain as an encoded war3map.w3e and the image file in base64. */
+interface ProjectFileV1 {
+    format: typeof PROJECT_FORMAT;
+    version: 1;
+    name: string;
+    savedAt: string;
+    terrain: string | null;
+    image: { name: string; type: string; data: string } | null;
+    mappings: ColorMapping[];
+    mappingOptions: Partial<MappingOptions>;
+}
+
+/** Versioned project files bundling terrain, reference image and slot mappings. */
+export default class ProjectFile {
+    static serialize(project: Project): string {
+        const file: ProjectFileV1 = {
+            format: PROJECT_FORMAT,
+            version: PROJECT_VERSION,
+            name: project.name,
+            savedAt: new Date().toISOString(),
+            terrain: project.terrain ? toBase64(project.terrain) : null,
+            image: project.image ? { name: project.image.name, type: project.image.type, data: toBase64(project.image.bytes) } : null,
+            mappings: project.mappings,
+            mappingOptions: project.mappingOptions
+        };
+        return JSON.stringify(file);
+    }
+
+    static parse(text: string): Project {
+        let file: ProjectFileV1;
+        try {
+            file = JSON.parse(text);
+        } catch {
+            throw new Error("Not a project file: it is not valid JSON");
+        }
+        if (file?.format !== PROJECT_FORMAT) throw new Error("Not a project file");
+        if (!Number.isInteger(file.version) || file.version < 1) throw new Error(`Unknown project version ${file.version}`);
+        if (file.version > PROJECT_VERSION) {
+            throw new Error(`The project was saved by a newer version (format ${file.version}, this app reads up to ${PROJECT_VERSION})`);
+        }
+        if (!Array.isArray(file.mappings)) throw new Error("Project has no slot mappings");
+
+        return {
+            name: String(file.name ?? 'Project'),
+            terrain: file.terrain ? fromBase64(file.terrain) : null,
+            image: file.image ? { name: file.image.name, type: file.image.type, bytes: fromBase64(file.image.data) } : null,
+            mappings: file.mappings.map((m, i) => ({ ...m, slotIndex: i })),
+            mappingOptions: ImageMapping.parseOptions(file.mappingOptions)
+        };
+    }
+}
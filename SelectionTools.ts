@@ -0,0 +1,214 @@
+import { W3E } from "./TerrainUtil";
+import CornerData from "./CornerData";
+import { CornerPoint } from "./BrushTools";
+import PaletteTools from "./PaletteTools";
+
+/**
+ * A copied block of corners with every field. `mask` marks which cells belong
+ * to the clip (lasso selections are not rectangular); palettes are kept so
+ * textures can be matched by tile ID when pasting into another map.
+ */
+export interface TerrainClip {
+    width: number;
+    height: number;
+    corners: CornerData;
+    mask: Uint8Array;
+    tilePalette: string[];
+    cliffTilePalette: string[];
+}
+
+export type ClipTransform = 'rotateCW' | 'rotateCCW' | 'mirrorX' | 'mirrorY';
+
+/** A clip saved under a name for reuse. */
+export interface TerrainStamp {
+    name: string;
+    clip: TerrainClip;
+}
+
+interface SerializedClip {
+    width: number;
+    height: number;
+    corners: string;
+    mask: string;
+    tilePalette: string[];
+    cliffTilePalette: string[];
+}
+
+export const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+/**
+ * Corner selections (map-sized masks) and the clips copied out of them.
+ * Clip row 0 is the bottom row, like the terrain itself.
+ */
+export default class SelectionTools {
+    static rectangleMask(w3e: W3E, a: CornerPoint, b: CornerPoint): Uint8Array {
+        const { width, height } = w3e.header;
+        const mask = new Uint8Array(width * height);
+        const c0 = Math.max(0, Math.min(a.col, b.col)), c1 = Math.min(width - 1, Math.max(a.col, b.col));
+        const r0 = Math.max(0, Math.min(a.row, b.row)), r1 = Math.min(height - 1, Math.max(a.row, b.row));
+        for (let row = r0; row <= r1; row++) mask.fill(1, row * width + c0, row * width + c1 + 1);
+        return mask;
+    }
+
+    /** Corners inside the polygon traced by `points` (even-odd rule, sampled at corner centres). */
+    static lassoMask(w3e: W3E, points: CornerPoint[]): Uint8Array {
+        const { width, height } = w3e.header;
+        const mask = new Uint8Array(width * height);
+        if (points.length === 0) return mask;
+        for (const p of points) {
+            if (p.col >= 0 && p.col < width && p.row >= 0 && p.row < height) mask[p.row * width + p.col] = 1;
+        }
+        if (points.length < 3) return mask;
+
+        const r0 = Math.max(0, Math.min(...points.map(p => p.row)));
+        const r1 = Math.min(height - 1, Math.max(...points.map(p => p.row)));
+        for (let row = r0; row <= r1; row++) {
+            // Crossings of this row with every polygon edge, then fill between pairs
+            const xs: number[] = [];
+            for (let i = 0; i < points.length; i++) {
+                const p = points[i], q = points[(i + 1) % points.length];
+                if ((p.row <= row) !== (q.row <= row)) xs.push(p.col + (row - p.row) / (q.row - p.row) * (q.col - p.col));
+            }
+            xs.sort((x, y) => x - y);
+            for (let i = 0; i + 1 < xs.length; i += 2) {
+                const c0 = Math.max(0, Math.ceil(xs[i])), c1 = Math.min(width - 1, Math.floor(xs[i + 1]));
+                if (c0 <= c1) mask.fill(1, row * width + c0, row * width + c1 + 1);
+            }
+        }
+        return mask;
+    }
+
+    /** Copies the selected corners, cropped to the selection's bounding box. Returns null for an empty selection. */
+    static copy(w3e: W3E, selection: Uint8Array): TerrainClip | null {
+        const { width, height } = w3e.header;
+        let c0 = width, c1 = -1, r0 = height, r1 = -1;
+        for (let i = 0; i < selection.length; i++) {
+            if (!selection[i]) continue;
+            const col = i % width, row = Math.floor(i / width);
+            c0 = Math.min(c0, col); c1 = Math.max(c1, col);
+            r0 = Math.min(r0, row); r1 = Math.max(r1, row);
+        }
+        if (c1 < 0) return null;
+
+        const clipWidth = c1 - c0 + 1, clipHeight = r1 - r0 + 1;
+        const corners = new CornerData(clipWidth, clipHeight);
+        const mask = new Uint8Array(clipWidth * clipHeight);
+        for (let row = 0; row < clipHeight; row++) {
+            corners.copyFrom(w3e.corners, (r0 + row) * width + c0, row * clipWidth, clipWidth);
+            mask.set(selection.subarray((r0 + row) * width + c0, (r0 + row) * width + c1 + 1), row * clipWidth);
+        }
+        return {
+            width: clipWidth,
+            height: clipHeight,
+            corners,
+            mask,
+            tilePalette: [...w3e.header.tilePalette],
+            cliffTilePalette: [...w3e.header.cliffTilePalette]
+        };
+    }
+
+    static transform(clip: TerrainClip, op: ClipTransform): TerrainClip {
+        const rotate = op === 'rotateCW' || op === 'rotateCCW';
+        const width = rotate ? clip.height : clip.width;
+        const height = rotate ? clip.width : clip.height;
+        const corners = new CornerData(width, height);
+        const mask = new Uint8Array(width * height);
+
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                // Source cell for each target cell; rows count upwards, so CW maps (col, row) <- (W-1-row, col)
+                let sc: number, sr: number;
+                switch (op) {
+                    case 'rotateCW': sc = clip.width - 1 - row; sr = col; break;
+                    case 'rotateCCW': sc = row; sr = clip.height - 1 - col; break;
+                    case 'mirrorX': sc = clip.width - 1 - col; sr = row; break;
+                    case 'mirrorY': sc = col; sr = clip.height - 1 - row; break;
+                }
+                const from = sr * clip.width + sc;
+                corners.copyFrom(clip.corners, from, row * width + col);
+                mask[row * width + col] = clip.mask[from];
+            }
+        }
+        return { ...clip, width, height, corners, mask };
+    }
+
+    /**
+     * Pastes a clip with its bottom-left cell at (col, row). Textures are
+     * matched by tile ID; tiles the target lacks are appended to its palette.
+     * Throws if they do not fit.
+     */
+    static paste(w3e: W3E, clip: TerrainClip, col: number, row: number): W3E {
+        const { width, height } = w3e.header;
+        const usedGround = new Set<number>();
+        const usedCliff = new Set<number>();
+        for (let i = 0; i < clip.mask.length; i++) {
+            if (!clip.mask[i]) continue;
+            usedGround.add(clip.corners.getField(i, 'groundTexture'));
+            usedCliff.add(clip.corners.getField(i, 'cliffTexture'));
+        }
+        const ground = PaletteTools.mapSlots(clip.tilePalette, usedGround, w3e.header.tilePalette, "ground");
+        const cliff = PaletteTools.mapSlots(clip.cliffTilePalette, usedCliff, w3e.header.cliffTilePalette, "cliff");
+        const corners = w3e.corners.clone();
+
+        for (let r = 0; r < clip.height; r++) {
+            const tr = row + r;
+            if (tr < 0 || tr >= height) continue;
+            for (let c = 0; c < clip.width; c++) {
+                const tc = col + c;
+                const from = r * clip.width + c;
+                if (tc < 0 || tc >= width || !clip.mask[from]) continue;
+                const to = tr * width + tc;
+                corners.copyFrom(clip.corners, from, to);
+                const tex = corners.getField(to, 'groundTexture');
+                if (tex < ground.map.length) corners.setField(to, 'groundTexture', ground.map[tex]);
+                const cliffTex = corners.getField(to, 'cliffTexture');
+                if (cliffTex < cliff.map.length) corners.setField(to, 'cliffTexture', cliff.map[cliffTex]);
+            }
+        }
+
+        const header = ground.palette === w3e.header.tilePalette && cliff.palette === w3e.header.cliffTilePalette
+            ? w3e.header
+            : {
+                ...w3e.header,
+                tilePalette: ground.palette,
+                tilePaletteCount: ground.palette.length,
+                cliffTilePalette: cliff.palette,
+                cliffTilePaletteCount: cliff.palette.length
+            };
+        return { ...w3e, header, corners };
+    }
+
+    static serialize(stamps: TerrainStamp[]): string {
+        return JSON.stringify(stamps.map(s => ({
+            name: s.name,
+            clip: {
+                width: s.clip.width,
+                height: s.clip.height,
+                corners: toBase64(s.clip.corners.toBytes()),
+                mask: toBase64(s.clip.mask),
+                tilePalette: s.clip.tilePalette,
+                cliffTilePalette: s.clip.cliffTilePalette
+            } as SerializedClip
+        })));
+    }
+
+    static deserialize(text: string): TerrainStamp[] {
+        const parsed: { name: string; clip: SerializedClip }[] = JSON.parse(text);
+        return parsed.map(({ name, clip }) => ({
+            name,
+            clip: {
+                width: clip.width,
+                height: clip.height,
+                corners: CornerData.fromBytes(clip.width, clip.height, fromBase64(clip.corners)),
+                mask: fromBase64(clip.mask),
+                tilePalette: clip.tilePalette,
+                cliffTilePalette: clip.cliffTilePalette
+            }
+        }));
+    }
+}
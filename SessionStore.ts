@@ -0,0 +1,204 @@
+import { W3E } from "./TerrainUtil";
+import { HistoryEntry } from "./TerrainHistory";
+import { WPM } from "./PathingMap";
+
+const DB_NAME = 'w3e-texturizer';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const RECENT = 'recent'; // summaries only, so listing does not load every terrain and image
+
+/** Sessions kept in the recent list; older ones are deleted on save. */
+export const MAX_RECENT_SESSIONS = 8;
+
+/** What the recent files list shows for a session. */
+export interface SessionSummary {
+    id: string;
+    name: string;
+    imageName: string | null;
+    width: number;
+    height: number;
+    updatedAt: number;
+}
+
+/**
+ * The full working state. `settings` is owned by the app (mappings, tool
+ * choices) and stored as-is, so it must be structured-cloneable.
+ */
+export interface Session<Settings = unknown> {
+    id: string;
+    name: string;
+    terrain: W3E | null;
+    history: { entries: HistoryEntry[]; position: number };
+    image: Blob | null;
+    imageName: string | null;
+    archive: { fileName: string; bytes: Uint8Array } | null;
+    pathing: { wpm: WPM; blockers: Uint8Array | null; stale: boolean } | null;
+    settings: Settings;
+}
+
+/** Turns terrains into stored war3map.w3e bytes and back; the app runs these in its processing worker. */
+export interface TerrainCodec {
+    encode(w3e: W3E): Promise<Uint8Array>;
+    decode(bytes: Uint8Array): Promise<W3E>;
+}
+
+/** History entries with whole terrains replaced by indices into `terrains`, since CornerData does not survive cloning. */
+type StoredEntry =
+    | Extract<HistoryEntry, { kind: 'corners' }>
+    | { kind: 'replace'; label: string; before: number | null; after: number };
+
+interface StoredSession {
+    id: string;
+    name: string;
+    updatedAt: number;
+    terrain: number | null;
+    terrains: Uint8Array[]; // encoded W3E files
+    history: { entries: StoredEntry[]; position: number };
+    image: Blob | null;
+    imageName: string | null;
+    archive: { fileName: string; bytes: Uint8Array } | null;
+    pathing: Session['pathing'];
+    settings: unknown;
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const done = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+});
+
+// Terrains are immutable, so one encoding per object is enough across autosaves
+const encoded = new WeakMap<W3E, Uint8Array>();
+
+/** Autosaved sessions in IndexedDB, restored on reload and listed as recent files. */
+export default class SessionStore {
+    private static db: Promise<IDBDatabase> | null = null;
+
+    static createId(): string {
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+
+    /** Most recently saved first. */
+    static async list(): Promise<SessionSummary[]> {
+        const db = await SessionStore.open();
+        const summaries = await request(db.transaction(RECENT).objectStore(RECENT).getAll() as IDBRequest<SessionSummary[]>);
+        return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    static async save(session: Session, codec: TerrainCodec): Promise<SessionSummary[]> {
+        const unique: W3E[] = [];
+        const indices = new Map<W3E, number>();
+        const store = (w3e: W3E) => {
+            let index = indices.get(w3e);
+            if (index === undefined) {
+                index = unique.push(w3e) - 1;
+                indices.set(w3e, index);
+            }
+            return index;
+        };
+        const terrain = session.terrain ? store(session.terrain) : null;
+        const entries: StoredEntry[] = session.history.entries.map(e => e.kind === 'replace'
+            ? { kind: 'replace', label: e.label, before: e.before ? store(e.before) : null, after: store(e.after) }
+            : e);
+
+        const terrains: Uint8Array[] = [];
+        for (const w3e of unique) {
+            let bytes = encoded.get(w3e);
+            if (!bytes) {
+                bytes = await codec.encode(w3e);
+                encoded.set(w3e, bytes);
+            }
+            terrains.push(bytes);
+        }
+
+        const stored: StoredSession = {
+            id: session.id,
+            name: session.name,
+            updatedAt: Date.now(),
+            terrain,
+            terrains,
+            history: { entries, position: session.history.position },
+            image: session.image,
+            imageName: session.imageName,
+            archive: session.archive,
+            pathing: session.pathing,
+            settings: session.settings
+        };
+        const summary: SessionSummary = {
+            id: stored.id,
+            name: stored.name,
+            imageName: stored.imageName,
+            width: session.terrain?.header.width ?? 0,
+            height: session.terrain?.header.height ?? 0,
+            updatedAt: stored.updatedAt
+        };
+
+        const db = await SessionStore.open();
+        const tx = db.transaction([SESSIONS, RECENT], 'readwrite');
+        tx.objectStore(SESSIONS).put(stored);
+        tx.objectStore(RECENT).put(summary);
+        await done(tx);
+
+        const recent = await SessionStore.list();
+        for (const old of recent.slice(MAX_RECENT_SESSIONS)) await SessionStore.remove(old.id);
+        return recent.slice(0, MAX_RECENT_SESSIONS);
+    }
+
+    static async load<Settings>(id: string, codec: TerrainCodec): Promise<Session<Settings> | null> {
+        const db = await SessionStore.open();
+        const stored = await request(db.transaction(SESSIONS).objectStore(SESSIONS).get(id) as IDBRequest<StoredSession | undefined>);
+        if (!stored) return null;
+
+        const terrains: W3E[] = [];
+        for (const bytes of stored.terrains) {
+            // The codec may take ownership of what it decodes; the cache keeps the original
+            const w3e = await codec.decode(bytes.slice());
+            encoded.set(w3e, bytes);
+            terrains.push(w3e);
+        }
+        return {
+            id: stored.id,
+            name: stored.name,
+            terrain: stored.terrain !== null ? terrains[stored.terrain] : null,
+            history: {
+                entries: stored.history.entries.map(e => e.kind === 'replace'
+                    ? { kind: 'replace', label: e.label, before: e.before !== null ? terrains[e.before] : null, after: terrains[e.after] }
+                    : e),
+                position: stored.history.position
+            },
+            image: stored.image,
+            imageName: stored.imageName,
+            archive: stored.archive,
+            pathing: stored.pathing,
+            settings: stored.settings as Settings
+        };
+    }
+
+    static async remove(id: string): Promise<void> {
+        const db = await SessionStore.open();
+        const tx = db.transaction([SESSIONS, RECENT], 'readwrite');
+        tx.objectStore(SESSIONS).delete(id);
+        tx.objectStore(RECENT).delete(id);
+        await done(tx);
+    }
+
+    private static open(): Promise<IDBDatabase> {
+        if (!SessionStore.db) {
+            if (typeof indexedDB === 'undefined') return Promise.reject(new Error("IndexedDB is not available"));
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                req.result.createObjectStore(SESSIONS, { keyPath: 'id' });
+                req.result.createObjectStore(RECENT, { keyPath: 'id' });
+            };
+            SessionStore.db = request(req);
+            // Let a later call try again instead of caching the failure
+            SessionStore.db.catch(() => { SessionStore.db = null; });
+        }
+        return SessionStore.db;
+    }
+}
@@ -0,0 +1,133 @@
+import { W3E, W3EDiagnostic, MAX_LISTED_CORNERS } from "./TerrainUtil";
+import CornerData, { CornerField, CORNER_FIELDS } from "./CornerData";
+
+export type SymmetryMode = 'none' | 'horizontal' | 'vertical' | 'both' | 'diagonal' | 'rotate2' | 'rotate3' | 'rotate4';
+
+/** Fields the checker compares; variations are cosmetic and usually randomized per corner. */
+export const SYMMETRY_FIELDS: CornerField[] = CORNER_FIELDS.filter(f => f !== 'groundVariation' && f !== 'cliffVariation');
+
+type Transform = (x: number, y: number) => [number, number];
+
+const rotation = (turns: number): Transform => {
+    const cos = Math.cos(turns * 2 * Math.PI), sin = Math.sin(turns * 2 * Math.PI);
+    return (x, y) => [x * cos - y * sin, x * sin + y * cos];
+};
+
+/**
+ * Mirrored and rotated copies of corner edits. Transforms work in coordinates
+ * normalised to -1..1 around the map centre, so diagonal and 90° symmetry
+ * still line up on non-square maps; 120° rotation rounds to the nearest corner.
+ */
+export default class SymmetryTools {
+    private static transforms(mode: SymmetryMode): Transform[] {
+        switch (mode) {
+            case 'none': return [];
+            case 'horizontal': return [(x, y) => [-x, y]];
+            case 'vertical': return [(x, y) => [x, -y]];
+            case 'both': return [(x, y) => [-x, y], (x, y) => [x, -y], (x, y) => [-x, -y]];
+            case 'diagonal': return [(x, y) => [y, x]];
+            case 'rotate2': return [rotation(1 / 2)];
+            case 'rotate3': return [rotation(1 / 3), rotation(2 / 3)];
+            case 'rotate4': return [rotation(1 / 4), rotation(2 / 4), rotation(3 / 4)];
+        }
+    }
+
+    /** The other corners `index` maps onto under `mode`, without duplicates or `index` itself. */
+    static images(w3e: W3E, index: number, mode: SymmetryMode): number[] {
+        const { width, height } = w3e.header;
+        const sx = (width - 1) / 2 || 1, sy = (height - 1) / 2 || 1;
+        const x = (index % width) / sx - 1, y = Math.floor(index / width) / sy - 1;
+        const result: number[] = [];
+        for (const transform of SymmetryTools.transforms(mode)) {
+            const [tx, ty] = transform(x, y);
+            const col = Math.round((tx + 1) * sx), row = Math.round((ty + 1) * sy);
+            if (col < 0 || col >= width || row < 0 || row >= height) continue;
+            const image = row * width + col;
+            if (image !== index && !result.includes(image)) result.push(image);
+        }
+        return result;
+    }
+
+    /** `indices` plus every image of them. */
+    static expand(w3e: W3E, indices: number[], mode: SymmetryMode): number[] {
+        if (mode === 'none') return indices;
+        const result = new Set(indices);
+        for (const index of indices) {
+            for (const image of SymmetryTools.images(w3e, index, mode)) result.add(image);
+        }
+        return [...result];
+    }
+
+    /**
+     * Copies every corner that differs between `before` and `after` onto its
+     * images, unless the image was itself part of the change.
+     */
+    static mirrorChanges(before: W3E, after: W3E, mode: SymmetryMode): W3E {
+        if (mode === 'none' || before.corners === after.corners) return after;
+        const changed: number[] = [];
+        for (let i = 0; i < after.corners.length; i++) {
+            if (!after.corners.equalsAt(i, before.corners)) changed.push(i);
+        }
+        const changedSet = new Set(changed);
+        const corners = after.corners.clone();
+        for (const index of changed) {
+            for (const image of SymmetryTools.images(after, index, mode)) {
+                if (!changedSet.has(image)) corners.copyFrom(after.corners, index, image);
+            }
+        }
+        return { ...after, corners };
+    }
+
+    /**
+     * Makes the map symmetric by copying `fields` of each corner onto its
+     * images, lowest index first (so the bottom / left part is the source).
+     * Returns null when the map already matches.
+     */
+    static enforce(w3e: W3E, mode: SymmetryMode, fields: CornerField[] = CORNER_FIELDS): W3E | null {
+        const covered = new Uint8Array(w3e.corners.length);
+        let corners: CornerData | null = null;
+        for (let i = 0; i < w3e.corners.length; i++) {
+            if (covered[i]) continue;
+            covered[i] = 1;
+            for (const image of SymmetryTools.images(w3e, i, mode)) {
+                if (covered[image]) continue;
+                covered[image] = 1;
+                for (const field of fields) {
+                    const value = w3e.corners.getField(i, field);
+                    if (w3e.corners.getField(image, field) === value) continue;
+                    if (!corners) corners = w3e.corners.clone();
+                    corners.setField(image, field, value);
+                }
+            }
+        }
+        return corners ? { ...w3e, corners } : null;
+    }
+
+    /** One warning per field that breaks the symmetry, listing the first corners involved. */
+    static check(w3e: W3E, mode: SymmetryMode, fields: CornerField[] = SYMMETRY_FIELDS): W3EDiagnostic[] {
+        const hits = new Map<CornerField, { corners: number[]; count: number }>();
+        const seen = new Set<number>();
+        const n = w3e.corners.length;
+        for (let i = 0; i < n; i++) {
+            for (const image of SymmetryTools.images(w3e, i, mode)) {
+                // Each pair once; with 120° rounding a corner is not always an image of its own images
+                const pair = Math.min(i, image) * n + Math.max(i, image);
+                if (seen.has(pair)) continue;
+                seen.add(pair);
+                for (const field of fields) {
+                    if (w3e.corners.getField(i, field) === w3e.corners.getField(image, field)) continue;
+                    const hit = hits.get(field) ?? { corners: [], count: 0 };
+                    if (hit.corners.length < MAX_LISTED_CORNERS) hit.corners.push(i);
+                    hit.count++;
+                    hits.set(field, hit);
+                }
+            }
+        }
+        return [...hits].map(([field, hit]) => ({
+            severity: 'warning',
+            code: 'symmetry',
+            message: `${hit.count === 1 ? "1 corner differs" : `${hit.count} corners differ`} from ${hit.count === 1 ? 'its' : 'their'} mirrored corner in ${field}.`,
+            ...hit
+        }));
+    }
+}
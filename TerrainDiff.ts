@@ -0,0 +1,158 @@
+import { W3E } from "./TerrainUtil";
+import CornerData, { CornerField, CORNER_FIELDS } from "./CornerData";
+import PaletteTools from "./PaletteTools";
+
+export interface HeaderChange {
+    field: keyof W3E['header'];
+    before: string;
+    after: string;
+}
+
+/** Differences from map `a` to map `b`. Corner results are only filled when the sizes match. */
+export interface DiffReport {
+    header: HeaderChange[];
+    sameSize: boolean;
+    samePalettes: boolean;
+    fieldCounts: Record<CornerField, number>;
+    changedCorners: number;
+    masks: Uint16Array | null; // per corner, bit n set when CORNER_FIELDS[n] differs
+}
+
+export type MergeLayer = 'texture' | 'height' | 'water' | 'flags' | 'variation';
+
+export const MERGE_LAYERS: { id: MergeLayer; label: string; fields: CornerField[] }[] = [
+    { id: 'texture', label: 'Textures', fields: ['groundTexture', 'cliffTexture'] },
+    { id: 'height', label: 'Heights & Cliffs', fields: ['groundHeight', 'layerHeight'] },
+    { id: 'water', label: 'Water', fields: ['water', 'waterHeight'] },
+    { id: 'flags', label: 'Ramp, Blight, Boundary & Edge', fields: ['ramp', 'blight', 'boundary', 'mapEdge'] },
+    { id: 'variation', label: 'Variations', fields: ['groundVariation', 'cliffVariation'] }
+];
+
+const HEADER_FIELDS: (keyof W3E['header'])[] = [
+    'fileId', 'version', 'baseTileset', 'hasCustomTileset', 'tilePalette', 'cliffTilePalette', 'width', 'height', 'x', 'y'
+];
+
+const sameTiles = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/** Field-by-field comparison of two maps, and merging layers of one into the other. */
+export default class TerrainDiff {
+    static compare(a: W3E, b: W3E): DiffReport {
+        const header: HeaderChange[] = [];
+        for (const field of HEADER_FIELDS) {
+            const before = a.header[field], after = b.header[field];
+            const same = Array.isArray(before) ? sameTiles(before, after as string[]) : before === after;
+            if (!same) {
+                header.push({
+                    field,
+                    before: Array.isArray(before) ? before.join(", ") : String(before),
+                    after: Array.isArray(after) ? after.join(", ") : String(after)
+                });
+            }
+        }
+
+        const fieldCounts = Object.fromEntries(CORNER_FIELDS.map(f => [f, 0])) as Record<CornerField, number>;
+        const sameSize = a.header.width === b.header.width && a.header.height === b.header.height;
+        let masks: Uint16Array | null = null;
+        let changedCorners = 0;
+        if (sameSize) {
+            masks = new Uint16Array(a.corners.length);
+            for (let i = 0; i < a.corners.length; i++) {
+                if (a.corners.equalsAt(i, b.corners)) continue;
+                let mask = 0;
+                CORNER_FIELDS.forEach((field, bit) => {
+                    if (a.corners.getField(i, field) === b.corners.getField(i, field)) return;
+                    mask |= 1 << bit;
+                    fieldCounts[field]++;
+                });
+                masks[i] = mask;
+                changedCorners++;
+            }
+        }
+
+        return {
+            header,
+            sameSize,
+            samePalettes: sameTiles(a.header.tilePalette, b.header.tilePalette) && sameTiles(a.header.cliffTilePalette, b.header.cliffTilePalette),
+            fieldCounts,
+            changedCorners,
+            masks
+        };
+    }
+
+    /** Per-corner heat in 0..1: the share of `fields` that differ. */
+    static heatmap(report: DiffReport, fields: CornerField[] = CORNER_FIELDS): Float32Array | null {
+        if (!report.masks || fields.length === 0) return null;
+        const bits = fields.map(f => 1 << CORNER_FIELDS.indexOf(f));
+        const heat = new Float32Array(report.masks.length);
+        for (let i = 0; i < heat.length; i++) {
+            const mask = report.masks[i];
+            if (!mask) continue;
+            let count = 0;
+            for (const bit of bits) if (mask & bit) count++;
+            heat[i] = count / bits.length;
+        }
+        return heat;
+    }
+
+    /**
+     * Copies the fields of `layers` from `source` into `target`, limited to
+     * `region` when given. Refuses maps of different sizes. Texture slots are
+     * copied as-is when both palettes agree on the tiles involved; otherwise
+     * they are matched by tile ID if `remap` is set, or the merge is refused.
+     * Returns null when nothing changes.
+     */
+    static merge(target: W3E, source: W3E, layers: MergeLayer[], region: Uint8Array | null, remap: boolean): W3E | null {
+        const { width, height } = target.header;
+        if (source.header.width !== width || source.header.height !== height) {
+            throw new Error(`Cannot merge a ${source.header.width}x${source.header.height} map into a ${width}x${height} one.`);
+        }
+        const fields = MERGE_LAYERS.filter(l => layers.includes(l.id)).flatMap(l => l.fields);
+        const inRegion = (i: number) => !region || region[i] === 1;
+
+        let ground = { map: source.header.tilePalette.map((_, i) => i), palette: target.header.tilePalette };
+        let cliff = { map: source.header.cliffTilePalette.map((_, i) => i), palette: target.header.cliffTilePalette };
+        if (layers.includes('texture')) {
+            const usedGround = new Set<number>(), usedCliff = new Set<number>();
+            for (let i = 0; i < source.corners.length; i++) {
+                if (!inRegion(i)) continue;
+                usedGround.add(source.corners.getField(i, 'groundTexture'));
+                usedCliff.add(source.corners.getField(i, 'cliffTexture'));
+            }
+            const mismatch = (used: Set<number>, from: string[], to: string[]) => [...used].some(slot => slot < from.length && from[slot] !== to[slot]);
+            if (!remap && (mismatch(usedGround, source.header.tilePalette, target.header.tilePalette) ||
+                mismatch(usedCliff, source.header.cliffTilePalette, target.header.cliffTilePalette))) {
+                throw new Error("The maps' texture palettes differ; enable remapping to match textures by tile ID.");
+            }
+            if (remap) {
+                ground = PaletteTools.mapSlots(source.header.tilePalette, usedGround, target.header.tilePalette, 'ground');
+                cliff = PaletteTools.mapSlots(source.header.cliffTilePalette, usedCliff, target.header.cliffTilePalette, 'cliff');
+            }
+        }
+
+        let corners: CornerData | null = null;
+        for (let i = 0; i < target.corners.length; i++) {
+            if (!inRegion(i)) continue;
+            for (const field of fields) {
+                let value = source.corners.getField(i, field);
+                if (field === 'groundTexture' && value < ground.map.length) value = ground.map[value];
+                if (field === 'cliffTexture' && value < cliff.map.length) value = cliff.map[value];
+                if ((corners ?? target.corners).getField(i, field) === value) continue;
+                if (!corners) corners = target.corners.clone();
+                corners.setField(i, field, value);
+            }
+        }
+
+        const paletteGrew = ground.palette !== target.header.tilePalette || cliff.palette !== target.header.cliffTilePalette;
+        if (!corners && !paletteGrew) return null;
+        const header = paletteGrew
+            ? {
+                ...target.header,
+                tilePalette: ground.palette,
+                tilePaletteCount: ground.palette.length,
+                cliffTilePalette: cliff.palette,
+                cliffTilePaletteCount: cliff.palette.length
+            }
+            : target.header;
+        return { ...target, header, corners: corners ?? target.corners };
+    }
+}
@@ -0,0 +1,185 @@
+import TerrainUtil, { W3E, GROUND_HEIGHT_MIN, GROUND_HEIGHT_MAX } from "./TerrainUtil";
+import CornerData from "./CornerData";
+import TilesetCatalog from "./TilesetCatalog";
+import VariationTools from "./VariationTools";
+
+/** First matching rule picks a corner's texture. Heights are world units, slope is the steepest rise to a neighbour per tile. */
+export interface TextureRule {
+    slot: number;
+    minHeight: number;
+    maxHeight: number;
+    minSlope: number;
+    maxSlope: number;
+}
+
+export interface GeneratorOptions {
+    seed: number;
+    scale: number; // size of the largest features, in corners
+    octaves: number;
+    persistence: number; // amplitude kept from one octave to the next
+    minHeight: number; // world height of the lowest noise value
+    maxHeight: number; // world height of the highest noise value
+    edgeFalloff: number; // 0..1, how much the map sinks towards its border
+    seaLevel: number; // corners below this world height get water
+    deriveCliffs: boolean; // split heights into cliff levels instead of only groundHeight
+    randomizeVariations: boolean;
+    rules: TextureRule[];
+}
+
+export const MAX_OCTAVES = 8;
+
+export const DEFAULT_GENERATOR_OPTIONS: Omit<GeneratorOptions, 'rules'> = {
+    seed: 1,
+    scale: 48,
+    octaves: 5,
+    persistence: 0.5,
+    minHeight: -128,
+    maxHeight: 384,
+    edgeFalloff: 0.3,
+    seaLevel: 0,
+    deriveCliffs: true,
+    randomizeVariations: true
+};
+
+const ANY_HEIGHT = { minHeight: GROUND_HEIGHT_MIN, maxHeight: GROUND_HEIGHT_MAX };
+const ANY_SLOPE = { minSlope: 0, maxSlope: 9999 };
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Seeded terrain generation: fractal value noise for height, cliff levels
+ * derived from it, textures chosen by height/slope rules and water below a
+ * sea level. Output depends only on the options, so previews match the result.
+ */
+export default class TerrainGenerator {
+    /**
+     * Starting rules for a palette, picked by tile name: shore near sea level,
+     * rock on steep slopes, snow or rough ground up high, grass elsewhere.
+     */
+    static defaultRules(tilePalette: string[], seaLevel = DEFAULT_GENERATOR_OPTIONS.seaLevel): TextureRule[] {
+        const names = tilePalette.map(id => TilesetCatalog.getGroundTile(id)?.name ?? '');
+        const find = (...words: string[]) => {
+            for (const word of words) {
+                // Prefer the plain tile ("Grass") over variants ("Grassy Dirt")
+                const slot = names.indexOf(word);
+                if (slot >= 0) return slot;
+                const partial = names.findIndex(name => name.includes(word));
+                if (partial >= 0) return partial;
+            }
+            return -1;
+        };
+        const rules: TextureRule[] = [];
+        const rock = find('Rock', 'Stones');
+        if (rock >= 0) rules.push({ slot: rock, ...ANY_HEIGHT, minSlope: 48, maxSlope: ANY_SLOPE.maxSlope });
+        const shore = find('Sand', 'Desert', 'Dirt');
+        if (shore >= 0) rules.push({ slot: shore, ...ANY_SLOPE, minHeight: GROUND_HEIGHT_MIN, maxHeight: seaLevel + 32 });
+        const high = find('Snow', 'Rough');
+        if (high >= 0) rules.push({ slot: high, ...ANY_SLOPE, minHeight: seaLevel + 256, maxHeight: GROUND_HEIGHT_MAX });
+        const base = find('Grass');
+        rules.push({ slot: Math.max(0, base), ...ANY_HEIGHT, ...ANY_SLOPE });
+        return rules;
+    }
+
+    /** World heights, row 0 at the bottom like the terrain. The noise is stretched so the map spans the full height range. */
+    static heights(width: number, height: number, options: GeneratorOptions): Float32Array {
+        const noise = new Float32Array(width * height);
+        const scale = Math.max(1, options.scale);
+        const octaves = Math.min(MAX_OCTAVES, Math.max(1, Math.round(options.octaves)));
+        let total = 0;
+        for (let o = 0, amplitude = 1; o < octaves; o++, amplitude *= options.persistence) total += amplitude;
+
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                let v = 0;
+                for (let o = 0, amplitude = 1, frequency = 1 / scale; o < octaves; o++, amplitude *= options.persistence, frequency *= 2) {
+                    v += amplitude * TerrainGenerator.valueNoise(options.seed + o * 7919, col * frequency, row * frequency);
+                }
+                noise[row * width + col] = total > 0 ? v / total : 0;
+            }
+        }
+
+        let min = Infinity, max = -Infinity;
+        for (const v of noise) {
+            if (v < min) min = v;
+            if (v > max) max = v;
+        }
+        const range = max - min || 1;
+        const values = new Float32Array(width * height);
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                let v = (noise[row * width + col] - min) / range;
+                // Distance from the centre, 0 in the middle and 1 on the border
+                const dx = width > 1 ? Math.abs(col / (width - 1) * 2 - 1) : 0;
+                const dy = height > 1 ? Math.abs(row / (height - 1) * 2 - 1) : 0;
+                const d = Math.max(dx, dy);
+                v = Math.min(1, Math.max(0, v - options.edgeFalloff * d * d));
+                values[row * width + col] = options.minHeight + v * (options.maxHeight - options.minHeight);
+            }
+        }
+        return values;
+    }
+
+    /** Replaces every corner of `w3e`, keeping its size and palettes. */
+    static generate(w3e: W3E, options: GeneratorOptions): W3E {
+        const { width, height, tilePalette } = w3e.header;
+        const bad = options.rules.find(r => r.slot < 0 || r.slot >= tilePalette.length);
+        if (bad) throw new Error(`Texture rule uses slot ${bad.slot}, but the tile palette has ${tilePalette.length} entries.`);
+
+        const heights = TerrainGenerator.heights(width, height, options);
+        const corners = CornerData.create(width, height, { layerHeight: 2 });
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                const i = row * width + col;
+                const worldHeight = Math.round(heights[i] * 4) / 4;
+                if (options.deriveCliffs) {
+                    const { layerHeight, groundHeight } = TerrainUtil.splitWorldHeight(worldHeight);
+                    corners.setField(i, 'layerHeight', layerHeight);
+                    corners.setField(i, 'groundHeight', groundHeight);
+                } else {
+                    corners.setField(i, 'groundHeight', Math.min(GROUND_HEIGHT_MAX, Math.max(GROUND_HEIGHT_MIN, worldHeight)));
+                }
+            }
+        }
+
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                const i = row * width + col;
+                const h = corners.getWorldHeight(i);
+                const layer = corners.getField(i, 'layerHeight');
+                // A cliff level change between neighbours counts as a full 128-unit rise
+                const rise = (j: number) => Math.max(Math.abs(h - corners.getWorldHeight(j)), Math.abs(layer - corners.getField(j, 'layerHeight')) * 128);
+                let slope = 0;
+                if (col > 0) slope = Math.max(slope, rise(i - 1));
+                if (col + 1 < width) slope = Math.max(slope, rise(i + 1));
+                if (row > 0) slope = Math.max(slope, rise(i - width));
+                if (row + 1 < height) slope = Math.max(slope, rise(i + width));
+
+                const rule = options.rules.find(r => h >= r.minHeight && h <= r.maxHeight && slope >= r.minSlope && slope <= r.maxSlope);
+                if (rule) corners.setField(i, 'groundTexture', rule.slot);
+                if (h < options.seaLevel) {
+                    corners.setField(i, 'water', 1);
+                    corners.setField(i, 'waterHeight', options.seaLevel);
+                }
+            }
+        }
+
+        const generated = { ...w3e, corners };
+        return options.randomizeVariations ? VariationTools.randomize(generated, options.seed) : generated;
+    }
+
+    /** Smoothly interpolated lattice noise in 0..1. */
+    private static valueNoise(seed: number, x: number, y: number): number {
+        const x0 = Math.floor(x), y0 = Math.floor(y);
+        const tx = smooth(x - x0), ty = smooth(y - y0);
+        const a = TerrainGenerator.lattice(seed, x0, y0), b = TerrainGenerator.lattice(seed, x0 + 1, y0);
+        const c = TerrainGenerator.lattice(seed, x0, y0 + 1), d = TerrainGenerator.lattice(seed, x0 + 1, y0 + 1);
+        return (a + (b - a) * tx) + ((c + (d - c) * tx) - (a + (b - a) * tx)) * ty;
+    }
+
+    private static lattice(seed: number, x: number, y: number): number {
+        let h = (seed ^ Math.imul(x, 0x27D4EB2D) ^ Math.imul(y, 0x165667B1)) >>> 0;
+        h = Math.imul(h ^ (h >>> 15), 0x85EBCA6B);
+        h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+        return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+    }
+}
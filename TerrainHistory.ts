@@ -0,0 +1,151 @@
+import { W3E } from "./TerrainUtil";
+
+/** Corners touched by one edit, as parallel arrays of packed before/after values. */
+export interface CornerChanges {
+    indices: Uint32Array;
+    beforeHeights: Uint32Array;
+    beforeBits: Uint32Array;
+    afterHeights: Uint32Array;
+    afterBits: Uint32Array;
+}
+
+/**
+ * One undoable step. Edits that keep the map dimensions only store the corners
+ * that changed; operations that swap the whole map (load, new, resize) keep
+ * references to the two terrains instead.
+ */
+export type HistoryEntry =
+    | { kind: 'corners'; label: string; header?: { before: W3E['header']; after: W3E['header'] }; changes: CornerChanges }
+    | { kind: 'replace'; label: string; before: W3E | null; after: W3E };
+
+export interface HistoryState {
+    entries: { label: string; size: number }[];
+    position: number; // number of applied entries
+}
+
+/**
+ * Linear undo/redo stack for terrain edits.
+ * Terrains are treated as immutable; an entry only holds the packed values of
+ * the corners that differ between two states.
+ */
+export default class TerrainHistory {
+    private entries: HistoryEntry[] = [];
+    private position = 0;
+
+    constructor(private limit = 200) {}
+
+    /** Records the transition from `before` to `after`. Returns false if nothing changed. */
+    record(label: string, before: W3E | null, after: W3E): boolean {
+        if (before === after) return false;
+
+        let entry: HistoryEntry;
+        if (!before ||
+            before.header.width !== after.header.width ||
+            before.header.height !== after.header.height ||
+            before.corners.length !== after.corners.length) {
+            entry = { kind: 'replace', label, before, after };
+        } else {
+            const changes = TerrainHistory.diff(before, after);
+            const headerChanged = before.header !== after.header;
+            if (changes.indices.length === 0 && !headerChanged) return false;
+            entry = {
+                kind: 'corners',
+                label,
+                changes,
+                header: headerChanged ? { before: before.header, after: after.header } : undefined
+            };
+        }
+
+        this.entries.length = this.position;
+        this.entries.push(entry);
+        if (this.entries.length > this.limit) this.entries.shift();
+        this.position = this.entries.length;
+        return true;
+    }
+
+    canUndo(): boolean { return this.position > 0; }
+    canRedo(): boolean { return this.position < this.entries.length; }
+
+    undo(current: W3E | null): W3E | null {
+        if (!this.canUndo()) return current;
+        const entry = this.entries[--this.position];
+        return TerrainHistory.apply(entry, current, 'before');
+    }
+
+    redo(current: W3E | null): W3E | null {
+        if (!this.canRedo()) return current;
+        const entry = this.entries[this.position++];
+        return TerrainHistory.apply(entry, current, 'after');
+    }
+
+    /** Undoes or redoes until `position` entries are applied. */
+    jumpTo(position: number, current: W3E | null): W3E | null {
+        let terrain = current;
+        while (this.position > position && this.canUndo()) terrain = this.undo(terrain);
+        while (this.position < position && this.canRedo()) terrain = this.redo(terrain);
+        return terrain;
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.position = 0;
+    }
+
+    /** The raw stack, for saving a session. Entries are immutable, so they are shared, not copied. */
+    snapshot(): { entries: HistoryEntry[]; position: number } {
+        return { entries: this.entries.slice(), position: this.position };
+    }
+
+    /** Replaces the stack with one taken by `snapshot`. */
+    restore(snapshot: { entries: HistoryEntry[]; position: number }): void {
+        this.entries = snapshot.entries.slice();
+        this.position = Math.min(snapshot.position, this.entries.length);
+    }
+
+    getState(): HistoryState {
+        return {
+            entries: this.entries.map(e => ({
+                label: e.label,
+                size: e.kind === 'corners' ? e.changes.indices.length : e.after.corners.length
+            })),
+            position: this.position
+        };
+    }
+
+    private static diff(before: W3E, after: W3E): CornerChanges {
+        const indices: number[] = [];
+        if (before.corners !== after.corners) {
+            for (let i = 0; i < after.corners.length; i++) {
+                if (!before.corners.equalsAt(i, after.corners)) indices.push(i);
+            }
+        }
+
+        const changes: CornerChanges = {
+            indices: Uint32Array.from(indices),
+            beforeHeights: new Uint32Array(indices.length),
+            beforeBits: new Uint32Array(indices.length),
+            afterHeights: new Uint32Array(indices.length),
+            afterBits: new Uint32Array(indices.length)
+        };
+        indices.forEach((index, i) => {
+            changes.beforeHeights[i] = before.corners.getPackedHeights(index);
+            changes.beforeBits[i] = before.corners.getPackedBits(index);
+            changes.afterHeights[i] = after.corners.getPackedHeights(index);
+            changes.afterBits[i] = after.corners.getPackedBits(index);
+        });
+        return changes;
+    }
+
+    private static apply(entry: HistoryEntry, current: W3E | null, side: 'before' | 'after'): W3E | null {
+        if (entry.kind === 'replace') return entry[side];
+        if (!current) return current;
+
+        const { indices, beforeHeights, beforeBits, afterHeights, afterBits } = entry.changes;
+        const heights = side === 'before' ? beforeHeights : afterHeights;
+        const bits = side === 'before' ? beforeBits : afterBits;
+        const corners = current.corners.clone();
+        for (let i = 0; i < indices.length; i++) corners.setPacked(indices[i], heights[i], bits[i]);
+        const header = entry.header ? entry.header[side] : current.header;
+        return { ...current, header, corners };
+    }
+}
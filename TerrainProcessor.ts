@@ -0,0 +1,135 @@
+import { W3E, W3EDiagnostic, W3EReport, W3EValidationError } from "./TerrainUtil";
+import { MappingOptions, MappingTarget, PixelBuffer, ProgressCallback } from "./ImageMapping";
+import { ProcessorJob, ProcessorJobs, ProcessorRequest, ProcessorResponse, packW3e, unpackW3e } from "./ProcessorProtocol";
+
+/** Rejection of jobs dropped by cancel(); callers usually ignore it. */
+export class ProcessingCancelledError extends Error {
+    constructor() {
+        super("Processing was cancelled");
+        this.name = "ProcessingCancelledError";
+    }
+}
+
+interface PendingJob<K extends ProcessorJob> {
+    resolve: (result: ProcessorJobs[K]['result']) => void;
+    reject: (err: Error) => void;
+    onProgress?: ProgressCallback;
+}
+
+/** Jobs waiting on the worker, by kind and id, so each resolver keeps its result type. */
+type PendingJobs = { [K in ProcessorJob]: Map<number, PendingJob<K>> };
+
+/**
+ * Runs decoding, encoding, validation and image mapping in a Web Worker so large maps
+ * and images do not freeze the page. Jobs run one after another in the
+ * order they were started. Buffers passed in are transferred to the worker
+ * where noted and cannot be used by the caller afterwards.
+ */
+export default class TerrainProcessor {
+    private worker: Worker | null = null;
+    private pending: PendingJobs = {
+        decode: new Map(), encode: new Map(), validate: new Map(), resampleArea: new Map(), mapToSlots: new Map()
+    };
+    private nextId = 1;
+
+    /** Decodes strictly, like TerrainUtil.decodeW3eStrict. Transfers `bytes`. */
+    async decode(bytes: Uint8Array, onProgress?: ProgressCallback): Promise<W3EReport> {
+        const { w3e, diagnostics } = await this.run('decode', { bytes }, [bytes.buffer], onProgress);
+        return { w3e: w3e ? unpackW3e(w3e) : null, diagnostics };
+    }
+
+    /** Encodes like TerrainUtil.encodeW3e, rejecting with a W3EValidationError when validation fails. */
+    async encode(w3e: W3E, validate = true, onProgress?: ProgressCallback): Promise<Uint8Array> {
+        const packed = packW3e(w3e);
+        const { bytes } = await this.run('encode', { w3e: packed, validate }, [packed.corners.buffer], onProgress);
+        return bytes;
+    }
+
+    /** Same checks as TerrainUtil.validateW3e. */
+    async validate(w3e: W3E, onProgress?: ProgressCallback): Promise<W3EDiagnostic[]> {
+        const packed = packW3e(w3e);
+        const { diagnostics } = await this.run('validate', { w3e: packed }, [packed.corners.buffer], onProgress);
+        return diagnostics;
+    }
+
+    /** ImageMapping.resampleArea off the main thread. Transfers the pixel data. */
+    async resampleArea(pixels: PixelBuffer, width: number, height: number, onProgress?: ProgressCallback): Promise<Float32Array> {
+        const { rgb } = await this.run('resampleArea', { pixels, width, height }, [pixels.data.buffer], onProgress);
+        return rgb;
+    }
+
+    /** ImageMapping.mapToSlots off the main thread. `rgb` is copied, so it can be mapped again with other options. */
+    async mapToSlots(
+        rgb: Float32Array, width: number, height: number, targets: MappingTarget[], options: MappingOptions, onProgress?: ProgressCallback
+    ): Promise<Uint8Array> {
+        const { slots } = await this.run('mapToSlots', { rgb, width, height, targets, options }, [], onProgress);
+        return slots;
+    }
+
+    get busy(): boolean {
+        return Object.values(this.pending).some(jobs => jobs.size > 0);
+    }
+
+    /** Stops the running job and drops queued ones; their promises reject with ProcessingCancelledError. */
+    cancel(): void {
+        if (!this.busy) return;
+        this.dispose();
+    }
+
+    /** Stops the worker. A later job starts a new one. */
+    dispose(): void {
+        this.stop(new ProcessingCancelledError());
+    }
+
+    private stop(reason: Error): void {
+        this.worker?.terminate();
+        this.worker = null;
+        for (const jobs of Object.values(this.pending)) {
+            const dropped = [...jobs.values()];
+            jobs.clear();
+            for (const job of dropped) job.reject(reason);
+        }
+    }
+
+    private run<K extends ProcessorJob>(
+        job: K, payload: ProcessorJobs[K]['payload'], transfer: Transferable[], onProgress?: ProgressCallback
+    ): Promise<ProcessorJobs[K]['result']> {
+        const id = this.nextId++;
+        const worker = this.getWorker();
+        const request: ProcessorRequest<K> = { id, job, payload };
+        return new Promise((resolve, reject) => {
+            const pending: Map<number, PendingJob<K>> = this.pending[job];
+            pending.set(id, { resolve, reject, onProgress });
+            worker.postMessage(request, transfer);
+        });
+    }
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            this.worker = new Worker(new URL('./ProcessorWorker.ts', import.meta.url), { type: 'module' });
+            this.worker.onmessage = (e: MessageEvent<ProcessorResponse>) => this.receive(e.data);
+            // The worker failed to load or crashed outside a job; nothing queued on it will finish
+            this.worker.onerror = (e) => this.stop(new Error(e.message || "Processing worker failed"));
+        }
+        return this.worker;
+    }
+
+    private receive<K extends ProcessorJob>(response: ProcessorResponse<K>): void {
+        const pending: Map<number, PendingJob<K>> = this.pending[response.job];
+        const job = pending.get(response.id);
+        if (!job) return;
+        if (response.kind === 'progress') {
+            job.onProgress?.(response.fraction);
+            return;
+        }
+        pending.delete(response.id);
+        if (response.kind === 'result') {
+            job.onProgress?.(1);
+            job.resolve(response.result);
+        } else if (response.diagnostics) {
+            job.reject(new W3EValidationError(response.diagnostics));
+        } else {
+            job.reject(new Error(response.message));
+        }
+    }
+}
@@ -0,0 +1,257 @@
+import { W3E } from "./TerrainUtil";
+import { CORNER_FLAGS, CornerFlag } from "./FlagTools";
+import ImageMapping from "./ImageMapping";
+import PathingMap, { WPM, PathingLayer, CELLS_PER_TILE } from "./PathingMap";
+import { SymmetryMode } from "./SymmetryTools";
+
+export type ViewMode = 'texture' | 'height' | 'contour';
+
+/** Inclusive bounds of the corners an edit touched, in terrain coordinates (row 0 at the bottom). */
+export interface CornerRect {
+    minCol: number;
+    minRow: number;
+    maxCol: number;
+    maxRow: number;
+}
+
+/**
+ * Everything besides the corners that decides a corner's color. The renderer
+ * compares styles by reference, so keep one object per combination (useMemo).
+ */
+export interface RenderStyle {
+    viewMode: ViewMode;
+    slotColors: string[];
+    overlayFlags: CornerFlag[];
+    selection: Uint8Array | null;
+    diffHeat: Float32Array | null;
+}
+
+/** Drawn above the corners at `cellSize` pixels per corner; none of it depends on corner data. */
+export interface OverlayStyle {
+    cellSize: number;
+    grid: boolean;
+    pathing: { wpm: WPM; layer: PathingLayer } | null;
+    symmetry: SymmetryMode;
+}
+
+/** Height change between contour lines, in world units. */
+export const CONTOUR_INTERVAL = 64;
+
+type RGBA = [number, number, number, number];
+
+const CLIFF_EDGE: RGBA = [249, 115, 22, 0.85];
+const CONTOUR_LINE: RGBA = [255, 255, 255, 0.45];
+const SELECTION: RGBA = [59, 130, 246, 0.35];
+const DIFF = [239, 68, 68] as const;
+
+const parseColor = (css: string): RGBA => {
+    const rgba = /rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+))?\s*\)/.exec(css);
+    if (rgba) return [+rgba[1], +rgba[2], +rgba[3], rgba[4] !== undefined ? +rgba[4] : 1];
+    const { r, g, b } = ImageMapping.hexToRgb(css);
+    return [r, g, b, 1];
+};
+
+/**
+ * Draws the map into an ImageData buffer at one pixel per corner; the canvas
+ * is scaled up by CSS. Edits that report the rectangle they changed only
+ * recolor and upload that region. Everything is redrawn when the map,
+ * its header or the style changes.
+ */
+export default class TerrainRenderer {
+    private canvas: HTMLCanvasElement | null = null;
+    private image: ImageData | null = null;
+    private header: W3E['header'] | null = null;
+    private style: RenderStyle | null = null;
+    // Height shading range from the last full draw; partial draws keep it unless an edit leaves it
+    private minHeight = 0;
+    private maxHeight = 0;
+
+    /** Bounding rectangle of corner indices; null when there are none. */
+    static rectOf(indices: Iterable<number>, width: number): CornerRect | null {
+        let rect: CornerRect | null = null;
+        for (const i of indices) {
+            const col = i % width, row = Math.floor(i / width);
+            rect = TerrainRenderer.union(rect, { minCol: col, minRow: row, maxCol: col, maxRow: row });
+        }
+        return rect;
+    }
+
+    static union(a: CornerRect | null, b: CornerRect | null): CornerRect | null {
+        if (!a || !b) return a ?? b;
+        return { minCol: Math.min(a.minCol, b.minCol), minRow: Math.min(a.minRow, b.minRow), maxCol: Math.max(a.maxCol, b.maxCol), maxRow: Math.max(a.maxRow, b.maxRow) };
+    }
+
+    render(canvas: HTMLCanvasElement, w3e: W3E, style: RenderStyle, dirty: CornerRect | null): void {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const { width, height } = w3e.header;
+
+        const partial = dirty !== null &&
+            this.canvas === canvas && this.image !== null && this.style === style &&
+            this.header === w3e.header && canvas.width === width && canvas.height === height;
+        this.canvas = canvas;
+        this.header = w3e.header;
+        this.style = style;
+
+        if (partial) {
+            // Shading and contours look at the neighbours, so recolor one corner further out
+            const rect = {
+                minCol: Math.max(0, dirty.minCol - 1), minRow: Math.max(0, dirty.minRow - 1),
+                maxCol: Math.min(width - 1, dirty.maxCol + 1), maxRow: Math.min(height - 1, dirty.maxRow + 1)
+            };
+            if (style.viewMode !== 'height' || this.heightsWithinRange(w3e, rect)) {
+                this.paint(w3e, style, rect);
+                const y = height - 1 - rect.maxRow;
+                ctx.putImageData(this.image!, 0, 0, rect.minCol, y, rect.maxCol - rect.minCol + 1, rect.maxRow - rect.minRow + 1);
+                return;
+            }
+        }
+
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+        }
+        if (!this.image || this.image.width !== width || this.image.height !== height) this.image = new ImageData(width, height);
+        this.minHeight = Infinity;
+        this.maxHeight = -Infinity;
+        for (let i = 0; i < w3e.corners.length; i++) {
+            const h = w3e.corners.getWorldHeight(i);
+            if (h < this.minHeight) this.minHeight = h;
+            if (h > this.maxHeight) this.maxHeight = h;
+        }
+        this.paint(w3e, style, { minCol: 0, minRow: 0, maxCol: width - 1, maxRow: height - 1 });
+        ctx.putImageData(this.image, 0, 0);
+    }
+
+    /** Grid, pathing and symmetry axes on their own canvas, so terrain edits never redraw them. */
+    static drawOverlay(canvas: HTMLCanvasElement, width: number, height: number, overlay: OverlayStyle): void {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const { cellSize, pathing, symmetry } = overlay;
+        const visible = overlay.grid || pathing !== null || symmetry !== 'none';
+        // An empty overlay keeps no full-size backing store around
+        canvas.width = visible ? width * cellSize : 1;
+        canvas.height = visible ? height * cellSize : 1;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (!visible) return;
+
+        if (overlay.grid) {
+            ctx.fillStyle = 'rgba(0,0,0,0.35)';
+            for (let col = 1; col < width; col++) ctx.fillRect(col * cellSize, 0, 1, canvas.height);
+            for (let row = 1; row < height; row++) ctx.fillRect(0, row * cellSize, canvas.width, 1);
+        }
+
+        if (pathing) {
+            // Cells are a quarter tile, starting half a corner square in from the edge
+            const { wpm } = pathing;
+            const cells = document.createElement('canvas');
+            cells.width = wpm.width;
+            cells.height = wpm.height;
+            cells.getContext('2d')?.putImageData(new ImageData(PathingMap.render(wpm, pathing.layer), wpm.width, wpm.height), 0, 0);
+            ctx.imageSmoothingEnabled = false;
+            ctx.drawImage(cells, cellSize / 2, cellSize / 2, wpm.width * cellSize / CELLS_PER_TILE, wpm.height * cellSize / CELLS_PER_TILE);
+        }
+
+        if (symmetry !== 'none') {
+            // Axes in the same -1..1 space SymmetryTools works in, y pointing up
+            const toCanvas = (x: number, y: number): [number, number] => [(x + 1) / 2 * canvas.width, (1 - y) / 2 * canvas.height];
+            const axes: [number, number][] = symmetry === 'horizontal' ? [[0, 1]]
+                : symmetry === 'vertical' ? [[1, 0]]
+                : symmetry === 'both' ? [[0, 1], [1, 0]]
+                : symmetry === 'diagonal' ? [[1, 1]]
+                : [];
+            ctx.strokeStyle = 'rgba(250,204,21,0.8)';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([6, 4]);
+            ctx.beginPath();
+            for (const [dx, dy] of axes) {
+                ctx.moveTo(...toCanvas(-dx, -dy));
+                ctx.lineTo(...toCanvas(dx, dy));
+            }
+            const spokes = symmetry === 'rotate2' ? 2 : symmetry === 'rotate3' ? 3 : symmetry === 'rotate4' ? 4 : 0;
+            for (let k = 0; k < spokes; k++) {
+                // Sector boundaries, drawn out to the map edge
+                const angle = Math.PI / 4 + k * 2 * Math.PI / spokes;
+                const reach = 1 / Math.max(Math.abs(Math.cos(angle)), Math.abs(Math.sin(angle)));
+                ctx.moveTo(...toCanvas(0, 0));
+                ctx.lineTo(...toCanvas(Math.cos(angle) * reach, Math.sin(angle) * reach));
+            }
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+    }
+
+    /** Whether the region's heights fit the shading range; if not, every pixel needs new shading. */
+    private heightsWithinRange(w3e: W3E, rect: CornerRect): boolean {
+        const { width } = w3e.header;
+        for (let row = rect.minRow; row <= rect.maxRow; row++) {
+            for (let col = rect.minCol; col <= rect.maxCol; col++) {
+                const h = w3e.corners.getWorldHeight(row * width + col);
+                if (h < this.minHeight || h > this.maxHeight) return false;
+            }
+        }
+        return true;
+    }
+
+    private paint(w3e: W3E, style: RenderStyle, rect: CornerRect): void {
+        const { width, height } = w3e.header;
+        const { corners } = w3e;
+        const data = this.image!.data;
+        const slotColors = style.slotColors.map(parseColor);
+        const flags = CORNER_FLAGS.filter(f => style.overlayFlags.includes(f.id)).map(f => ({ id: f.id, color: parseColor(f.color) }));
+        const selection = style.selection && style.selection.length === corners.length ? style.selection : null;
+        const diffHeat = style.diffHeat && style.diffHeat.length === corners.length ? style.diffHeat : null;
+        const heightRange = this.maxHeight - this.minHeight || 1;
+        const heightAt = (col: number, row: number) => corners.getWorldHeight(
+            Math.min(height - 1, Math.max(0, row)) * width + Math.min(width - 1, Math.max(0, col))
+        );
+
+        const band = (i: number) => Math.floor(corners.getWorldHeight(i) / CONTOUR_INTERVAL);
+
+        let r = 0, g = 0, b = 0;
+        const blend = (color: readonly number[], alpha: number) => {
+            r += (color[0] - r) * alpha;
+            g += (color[1] - g) * alpha;
+            b += (color[2] - b) * alpha;
+        };
+
+        for (let row = rect.minRow; row <= rect.maxRow; row++) {
+            for (let col = rect.minCol; col <= rect.maxCol; col++) {
+                const index = row * width + col;
+                if (style.viewMode === 'height') {
+                    // Grey ramp by elevation, lit from the north-west
+                    const slope = (heightAt(col - 1, row) - heightAt(col + 1, row)) + (heightAt(col, row + 1) - heightAt(col, row - 1));
+                    const base = 40 + ((corners.getWorldHeight(index) - this.minHeight) / heightRange) * 180;
+                    r = g = b = Math.min(255, Math.max(0, base + slope * 0.25));
+                } else {
+                    [r, g, b] = slotColors[corners.getField(index, 'groundTexture') % 16] ?? [0, 0, 0];
+                }
+
+                for (const flag of flags) {
+                    if (corners.getField(index, flag.id)) blend(flag.color, flag.color[3]);
+                }
+
+                if (style.viewMode === 'contour') {
+                    // A corner is marked when the next corner right or up sits on another cliff level or height band
+                    const hasRight = col + 1 < width, hasUp = row + 1 < height;
+                    const layer = corners.getField(index, 'layerHeight');
+                    const own = band(index);
+                    if ((hasRight && corners.getField(index + 1, 'layerHeight') !== layer) || (hasUp && corners.getField(index + width, 'layerHeight') !== layer)) {
+                        blend(CLIFF_EDGE, CLIFF_EDGE[3]);
+                    } else if ((hasRight && band(index + 1) !== own) || (hasUp && band(index + width) !== own)) {
+                        blend(CONTOUR_LINE, CONTOUR_LINE[3]);
+                    }
+                }
+
+                if (diffHeat && diffHeat[index]) blend(DIFF, 0.3 + 0.6 * diffHeat[index]);
+                if (selection && selection[index]) blend(SELECTION, SELECTION[3]);
+
+                const o = ((height - 1 - row) * width + col) * 4;
+                data[o] = r;
+                data[o + 1] = g;
+                data[o + 2] = b;
+                data[o + 3] = 255;
+            }
+        }
+    }
+}
@@ -1,5 +1,8 @@
 
 import BitStream from "./BitStream";
+import TilesetCatalog from "./TilesetCatalog";
+import CornerData, { CornerField, CORNER_BYTES } from "./CornerData";
+import { ProgressCallback } from "./ImageMapping";
 
 export interface W3E {
     header: {
@@ -16,9 +19,10 @@ export interface W3E {
         x: number;
         y: number;
     };
-    corners: Corner[];
+    corners: CornerData;
 }
 
+/** Decoded view of one corner, as returned by `CornerData.get`. */
 export interface Corner {
     index: number;
     rowid: number;
@@ -37,51 +41,242 @@ export interface Corner {
     layerHeight: number;     // 4 bits
 }
 
+/** Values given to corners created by resizing or map generation. */
+export interface CornerFill {
+    groundTexture: number;
+    groundHeight: number;
+    layerHeight: number;
+}
+
+/** Tiles to add (positive) or crop (negative) on each side of the map. */
+export interface ResizeMargins {
+    left: number;
+    right: number;
+    bottom: number;
+    top: number;
+}
+
+export type W3EDiagnosticCode =
+    | 'bad-magic'
+    | 'unknown-version'
+    | 'truncated'
+    | 'trailing-data'
+    | 'bad-header'
+    | 'palette-count'
+    | 'palette-size'
+    | 'bad-tile-id'
+    | 'unknown-tileset'
+    | 'foreign-tile'
+    | 'bad-dimensions'
+    | 'corner-count'
+    | 'field-range'
+    | 'texture-out-of-range'
+    | 'cliff-texture-out-of-range'
+    | 'symmetry';
+
+export interface W3EDiagnostic {
+    severity: 'error' | 'warning';
+    code: W3EDiagnosticCode;
+    message: string;
+    offset?: number;    // byte offset in the file, for decode problems
+    corners?: number[]; // first few affected corner indices
+    count?: number;     // total number of affected corners
+}
+
+/** Result of a strict decode. `w3e` is null when the file could not be read to the end. */
+export interface W3EReport {
+    w3e: W3E | null;
+    diagnostics: W3EDiagnostic[];
+}
+
+export class W3EValidationError extends Error {
+    constructor(public diagnostics: W3EDiagnostic[]) {
+        super(diagnostics.filter(d => d.severity === 'error').map(d => d.message).join("\n"));
+        this.name = "W3EValidationError";
+    }
+}
+
+export const W3E_FILE_IDS = ["W3E!", "W3ER"];
+export const SUPPORTED_VERSIONS = [11];
+
+export const TILE_SIZE = 128;
+export const MIN_MAP_DIMENSION = 2;
+export const MAX_MAP_DIMENSION = 481; // 480 tiles plus the closing row/column of corners
+
+// Heights are stored as raw = height * 4 + 8192; ground heights use the whole u16,
+// water heights the low 14 bits of a u16 whose top two bits hold mapEdge
+const HEIGHT_OFFSET = 8192;
+export const GROUND_HEIGHT_MIN = (0 - HEIGHT_OFFSET) / 4;          // -2048
+export const GROUND_HEIGHT_MAX = (0xFFFF - HEIGHT_OFFSET) / 4;     // 14335.75
+export const WATER_HEIGHT_MIN = (0 - HEIGHT_OFFSET) / 4;           // -2048
+export const WATER_HEIGHT_MAX = (0x3FFF - HEIGHT_OFFSET) / 4;      // 2047.75
+export const LAYER_HEIGHT_MAX = 15;
+
+const HEADER_FIXED_BYTES = 4 + 4 + 1 + 4 + 4; // fileId, version, tileset, custom flag, palette count
+export const MAX_LISTED_CORNERS = 10;
+
+const CORNER_FIELD_LIMITS: [CornerField, number, number][] = [
+    ['groundHeight', GROUND_HEIGHT_MIN, GROUND_HEIGHT_MAX],
+    ['waterHeight', WATER_HEIGHT_MIN, WATER_HEIGHT_MAX],
+    ['mapEdge', 0, 3],
+    ['ramp', 0, 1],
+    ['blight', 0, 1],
+    ['water', 0, 1],
+    ['boundary', 0, 1],
+    ['groundTexture', 0, 15],
+    ['groundVariation', 0, 31],
+    ['cliffVariation', 0, 7],
+    ['cliffTexture', 0, 15],
+    ['layerHeight', 0, LAYER_HEIGHT_MAX]
+];
+
+const cornerCount = (n: number) => n === 1 ? "1 corner" : `${n} corners`;
+
+const DEFAULT_FILL: CornerFill = { groundTexture: 0, groundHeight: 0, layerHeight: 2 };
+
 export default class TerrainUtil {
-    static generateEmptyW3e(width: number, height: number, tileset: string = 'O'): W3E {
+    /** Final corner elevation in world units: ground height plus 128 per cliff level above level 2. */
+    static getWorldHeight(corner: Corner): number {
+        return corner.groundHeight + (corner.layerHeight - 2) * 128;
+    }
+
+    /** Inverse of getWorldHeight: the cliff level holding `worldHeight` and the ground height left over. */
+    static splitWorldHeight(worldHeight: number): { layerHeight: number; groundHeight: number } {
+        const layerHeight = Math.min(LAYER_HEIGHT_MAX, Math.max(0, Math.floor(worldHeight / 128) + 2));
+        const groundHeight = Math.min(GROUND_HEIGHT_MAX, Math.max(GROUND_HEIGHT_MIN, worldHeight - (layerHeight - 2) * 128));
+        return { layerHeight, groundHeight };
+    }
+
+    /** World x/y of a corner: the header offset is corner (0, 0), each tile is TILE_SIZE units. */
+    static getCornerPosition(w3e: W3E, col: number, row: number): { x: number; y: number } {
+        return { x: w3e.header.x + col * TILE_SIZE, y: w3e.header.y + row * TILE_SIZE };
+    }
+
+    /** Creates a flat map using the full ground and cliff palettes of a standard tileset. */
+    static generateEmptyW3e(width: number, height: number, tileset: string = 'L'): W3E {
+        TerrainUtil.assertDimensions(width, height);
+        const info = TilesetCatalog.getTileset(tileset);
+        if (!info) throw new Error(`Unknown tileset '${tileset}'.`);
+        const tilePalette = info.ground.slice(0, 16).map(t => t.id);
+        const cliffTilePalette = info.cliffs.map(t => t.id);
+
         const w3e: W3E = {
             header: {
                 fileId: "W3ER",
                 version: 11,
                 baseTileset: tileset,
                 hasCustomTileset: 0,
-                tilePaletteCount: 1,
-                tilePalette: ["Oaby"], // Default dirt for Lordaeron Summer
-                cliffTilePaletteCount: 1,
-                cliffTilePalette: ["Oclm"],
+                tilePaletteCount: tilePalette.length,
+                tilePalette,
+                cliffTilePaletteCount: cliffTilePalette.length,
+                cliffTilePalette,
                 width: width,
                 height: height,
-                x: -Math.floor(width / 2) * 128,
-                y: -Math.floor(height / 2) * 128
+                x: -Math.floor(width / 2) * TILE_SIZE,
+                y: -Math.floor(height / 2) * TILE_SIZE
             },
-            corners: []
+            corners: CornerData.create(width, height, DEFAULT_FILL)
         };
+        return w3e;
+    }
 
-        for (let i = 0; i < width * height; i++) {
-            const row = Math.floor(i / width);
-            const col = i % width;
-            w3e.corners.push({
-                index: i,
-                rowid: row,
-                colid: col,
-                groundHeight: 0,
-                waterHeight: 0,
-                mapEdge: 0,
-                groundTexture: 0,
-                ramp: 0,
-                water: 0,
-                blight: 0,
-                boundary: 0,
-                groundVariation: 0,
-                cliffVariation: 0,
-                cliffTexture: 0,
-                layerHeight: 2
-            });
+    /**
+     * Grows or crops the map on each side. Existing corners keep their world
+     * position: header.x/y move by whole tiles to account for the left/bottom margins.
+     */
+    static resizeW3e(w3e: W3E, margins: ResizeMargins, fill: CornerFill = DEFAULT_FILL): W3E {
+        const { width, height } = w3e.header;
+        const newWidth = width + margins.left + margins.right;
+        const newHeight = height + margins.bottom + margins.top;
+        TerrainUtil.assertDimensions(newWidth, newHeight);
+
+        const corners = CornerData.create(newWidth, newHeight, fill);
+        // Copy the overlapping part of each surviving row in one go
+        const firstCol = Math.max(0, margins.left);
+        const lastCol = Math.min(newWidth, width + margins.left);
+        for (let row = 0; row < newHeight; row++) {
+            const srcRow = row - margins.bottom;
+            if (srcRow < 0 || srcRow >= height || lastCol <= firstCol) continue;
+            corners.copyFrom(
+                w3e.corners,
+                srcRow * width + (firstCol - margins.left),
+                row * newWidth + firstCol,
+                lastCol - firstCol
+            );
+        }
+
+        return {
+            ...w3e,
+            header: {
+                ...w3e.header,
+                width: newWidth,
+                height: newHeight,
+                x: w3e.header.x - margins.left * TILE_SIZE,
+                y: w3e.header.y - margins.bottom * TILE_SIZE
+            },
+            corners
+        };
+    }
+
+    /**
+     * Stretches the map to a new corner grid. Heights are interpolated bilinearly,
+     * every other field is taken from the nearest source corner. The map centre
+     * keeps its world position.
+     */
+    static resampleW3e(w3e: W3E, newWidth: number, newHeight: number): W3E {
+        TerrainUtil.assertDimensions(newWidth, newHeight);
+        const { width, height } = w3e.header;
+        const scaleX = newWidth > 1 ? (width - 1) / (newWidth - 1) : 0;
+        const scaleY = newHeight > 1 ? (height - 1) / (newHeight - 1) : 0;
+        const source = w3e.corners;
+        const at = (col: number, row: number, field: CornerField) => source.getField(row * width + col, field);
+
+        const corners = new CornerData(newWidth, newHeight);
+        for (let row = 0; row < newHeight; row++) {
+            for (let col = 0; col < newWidth; col++) {
+                const sx = col * scaleX;
+                const sy = row * scaleY;
+                const c0 = Math.floor(sx);
+                const r0 = Math.floor(sy);
+                const c1 = Math.min(width - 1, c0 + 1);
+                const r1 = Math.min(height - 1, r0 + 1);
+                const fx = sx - c0;
+                const fy = sy - r0;
+                const lerp = (field: 'groundHeight' | 'waterHeight') =>
+                    (at(c0, r0, field) * (1 - fx) + at(c1, r0, field) * fx) * (1 - fy) +
+                    (at(c0, r1, field) * (1 - fx) + at(c1, r1, field) * fx) * fy;
+
+                const index = row * newWidth + col;
+                corners.copyFrom(source, Math.round(sy) * width + Math.round(sx), index);
+                corners.setField(index, 'groundHeight', lerp('groundHeight'));
+                corners.setField(index, 'waterHeight', lerp('waterHeight'));
+            }
+        }
+
+        const centerX = w3e.header.x + (width - 1) * TILE_SIZE / 2;
+        const centerY = w3e.header.y + (height - 1) * TILE_SIZE / 2;
+        return {
+            ...w3e,
+            header: {
+                ...w3e.header,
+                width: newWidth,
+                height: newHeight,
+                x: centerX - Math.floor((newWidth - 1) / 2) * TILE_SIZE,
+                y: centerY - Math.floor((newHeight - 1) / 2) * TILE_SIZE
+            },
+            corners
+        };
+    }
+
+    private static assertDimensions(width: number, height: number): void {
+        if (!Number.isInteger(width) || !Number.isInteger(height) ||
+            width < MIN_MAP_DIMENSION || height < MIN_MAP_DIMENSION ||
+            width > MAX_MAP_DIMENSION || height > MAX_MAP_DIMENSION) {
+            throw new Error(`Map size ${width}x${height} is outside ${MIN_MAP_DIMENSION}..${MAX_MAP_DIMENSION} corners.`);
         }
-        return w3e;
     }
 
-    static decodeW3e(buffer: Uint8Array): W3E {
+    static decodeW3e(buffer: Uint8Array, onProgress?: ProgressCallback): W3E {
         const bitstream = new BitStream(buffer);
 
         const fileId = bitstream.readString32();
@@ -100,53 +295,200 @@ export default class TerrainUtil {
         const x = bitstream.readFloat32();
         const y = bitstream.readFloat32();
 
-        const w3e: W3E = {
+        // Corner records are byte-aligned and fixed-size, so they are parsed straight from the buffer
+        const corners = CornerData.fromBytes(width, height, buffer, bitstream.getBytePosition(), onProgress);
+
+        return {
             header: {
                 fileId, version, baseTileset, hasCustomTileset,
                 tilePaletteCount, tilePalette,
                 cliffTilePaletteCount, cliffTilePalette,
                 width, height, x, y
             },
-            corners: [],
+            corners
+        };
+    }
+
+    /**
+     * Decodes with bounds checks on every section and reports every problem found
+     * instead of silently producing garbage corners.
+     */
+    static decodeW3eStrict(buffer: Uint8Array, onProgress?: ProgressCallback): W3EReport {
+        const diagnostics: W3EDiagnostic[] = [];
+        const fatal = (code: W3EDiagnosticCode, message: string, offset: number): W3EReport => {
+            diagnostics.push({ severity: 'error', code, message, offset });
+            return { w3e: null, diagnostics };
         };
+        const truncated = (section: string, offset: number, needed: number) => fatal(
+            'truncated',
+            `File ends at byte ${buffer.length} while reading ${section} (needed ${needed} bytes from byte ${offset}).`,
+            offset
+        );
+
+        const bitstream = new BitStream(buffer);
+        if (bitstream.getRemainingBytes() < HEADER_FIXED_BYTES) return truncated("the header", 0, HEADER_FIXED_BYTES);
+
+        const fileId = bitstream.readString32();
+        if (!W3E_FILE_IDS.includes(fileId)) {
+            return fatal('bad-magic', `Expected file ID ${W3E_FILE_IDS.join(" or ")}, found '${fileId}'.`, 0);
+        }
+        const version = bitstream.readUInt32();
+        if (!SUPPORTED_VERSIONS.includes(version)) {
+            return fatal('unknown-version', `Unsupported format version ${version} (supported: ${SUPPORTED_VERSIONS.join(", ")}).`, 4);
+        }
+        bitstream.readString8();
+        bitstream.readUInt32();
 
-        const totalCorners = width * height;
-        for (let i = 0; i < totalCorners; i++) {
-            const row = Math.floor(i / width);
-            const col = i % width;
-
-            const gHeight = bitstream.readUInt16();
-            const wHeightRaw = bitstream.readUInt16();
-            
-            const byte4 = bitstream.readUInt8();
-            const byte5 = bitstream.readUInt8();
-            const byte6 = bitstream.readUInt8();
-            
-            w3e.corners.push({
-                index: i,
-                rowid: row,
-                colid: col,
-                groundHeight: (gHeight - 8192) / 4,
-                waterHeight: ((wHeightRaw & 0x3FFF) - 8192) / 4,
-                mapEdge: (wHeightRaw & 0xC000) >>> 14,
-                
-                groundTexture: byte4 & 0x0F,
-                ramp: (byte4 & 0x10) >> 4,
-                water: (byte4 & 0x20) >> 5,
-                blight: (byte4 & 0x40) >> 6,
-                boundary: (byte4 & 0x80) >> 7,
-                
-                groundVariation: byte5 & 0x1F,
-                cliffVariation: (byte5 & 0xE0) >> 5,
-                
-                cliffTexture: byte6 & 0x0F,
-                layerHeight: (byte6 & 0xF0) >> 4
+        for (const palette of ["tile palette", "cliff tile palette"]) {
+            const countOffset = bitstream.getBytePosition();
+            if (bitstream.getRemainingBytes() < 4) return truncated(`the ${palette} count`, countOffset, 4);
+            const count = bitstream.readUInt32();
+            if (count * 4 > bitstream.getRemainingBytes()) {
+                return fatal(
+                    'palette-count',
+                    `The ${palette} count ${count} at byte ${countOffset} needs ${count * 4} bytes, but only ${bitstream.getRemainingBytes()} remain.`,
+                    countOffset
+                );
+            }
+            bitstream.readString32Array(count);
+        }
+
+        const sizeOffset = bitstream.getBytePosition();
+        if (bitstream.getRemainingBytes() < 16) return truncated("the map size and offset", sizeOffset, 16);
+        const width = bitstream.readUInt32();
+        const height = bitstream.readUInt32();
+        if (width < MIN_MAP_DIMENSION || height < MIN_MAP_DIMENSION || width > MAX_MAP_DIMENSION || height > MAX_MAP_DIMENSION) {
+            return fatal('bad-dimensions', `Map size ${width}x${height} at byte ${sizeOffset} is outside ${MIN_MAP_DIMENSION}..${MAX_MAP_DIMENSION} corners.`, sizeOffset);
+        }
+        bitstream.readFloat32();
+        bitstream.readFloat32();
+
+        const cornerOffset = bitstream.getBytePosition();
+        const cornerBytes = width * height * CORNER_BYTES;
+        const available = bitstream.getRemainingBytes();
+        if (available < cornerBytes) {
+            const complete = Math.floor(available / CORNER_BYTES);
+            return fatal(
+                'truncated',
+                `File ends at byte ${buffer.length} inside corner ${complete} of ${width * height} (corner data starts at byte ${cornerOffset}).`,
+                cornerOffset + complete * CORNER_BYTES
+            );
+        }
+        if (available > cornerBytes) {
+            diagnostics.push({
+                severity: 'warning',
+                code: 'trailing-data',
+                message: `${available - cornerBytes} unexpected bytes after the last corner.`,
+                offset: cornerOffset + cornerBytes
             });
         }
-        return w3e;
+
+        // Parsing and validating the corners take about as long as each other
+        const w3e = TerrainUtil.decodeW3e(buffer, onProgress && (t => onProgress(t * 0.5)));
+        diagnostics.push(...TerrainUtil.validateW3e(w3e, onProgress && (t => onProgress(0.5 + t * 0.5))));
+        return { w3e, diagnostics };
+    }
+
+    /** Checks that a terrain can be encoded into a file the game will accept. `onProgress` advances once per corner check. */
+    static validateW3e(w3e: W3E, onProgress?: ProgressCallback): W3EDiagnostic[] {
+        const diagnostics: W3EDiagnostic[] = [];
+        const { header } = w3e;
+        const error = (code: W3EDiagnosticCode, message: string) => diagnostics.push({ severity: 'error', code, message });
+        const warning = (code: W3EDiagnosticCode, message: string) => diagnostics.push({ severity: 'warning', code, message });
+
+        if (!W3E_FILE_IDS.includes(header.fileId)) error('bad-magic', `File ID '${header.fileId}' is not ${W3E_FILE_IDS.join(" or ")}.`);
+        if (!SUPPORTED_VERSIONS.includes(header.version)) error('unknown-version', `Unsupported format version ${header.version}.`);
+        if (header.baseTileset.length !== 1) error('bad-header', `Base tileset '${header.baseTileset}' must be a single character.`);
+        if (!Number.isFinite(header.x) || !Number.isFinite(header.y)) error('bad-header', `Map offset (${header.x}, ${header.y}) is not a finite number.`);
+
+        const palettes: [string, number, string[]][] = [
+            ["Tile palette", header.tilePaletteCount, header.tilePalette],
+            ["Cliff tile palette", header.cliffTilePaletteCount, header.cliffTilePalette]
+        ];
+        for (const [name, count, tiles] of palettes) {
+            if (count !== tiles.length) error('palette-count', `${name} count is ${count} but it holds ${tiles.length} entries.`);
+            if (tiles.length > 16) warning('palette-size', `${name} has ${tiles.length} entries; corners can only reference the first 16.`);
+            const invalid = tiles.filter(t => t.length !== 4);
+            if (invalid.length > 0) error('bad-tile-id', `${name} has IDs that are not 4 characters: ${invalid.map(t => `'${t}'`).join(", ")}.`);
+        }
+
+        if (!TilesetCatalog.getTileset(header.baseTileset)) {
+            warning('unknown-tileset', `Base tileset '${header.baseTileset}' is not a standard tileset.`);
+        } else {
+            for (const foreign of TilesetCatalog.findForeignTiles(w3e)) {
+                const where = `${foreign.kind === 'ground' ? "Tile" : "Cliff tile"} palette slot ${foreign.index} ('${foreign.id}')`;
+                if (!foreign.known) {
+                    warning('foreign-tile', `${where} is not a standard tile ID.`);
+                } else if (!header.hasCustomTileset) {
+                    warning('foreign-tile', `${where} belongs to tileset '${TilesetCatalog.getTileOrigin(foreign.id)}', not '${header.baseTileset}'.`);
+                }
+            }
+        }
+
+        if (header.width < MIN_MAP_DIMENSION || header.height < MIN_MAP_DIMENSION ||
+            header.width > MAX_MAP_DIMENSION || header.height > MAX_MAP_DIMENSION) {
+            error('bad-dimensions', `Map size ${header.width}x${header.height} is outside ${MIN_MAP_DIMENSION}..${MAX_MAP_DIMENSION} corners.`);
+        }
+        if (w3e.corners.length !== header.width * header.height) {
+            error('corner-count', `Expected ${header.width * header.height} corners for ${header.width}x${header.height}, found ${w3e.corners.length}.`);
+        }
+
+        // One pass per field limit, plus the ground and cliff palette checks
+        const passes = CORNER_FIELD_LIMITS.length + 2;
+        let passesDone = 0;
+        const collect = (predicate: (index: number) => boolean) => {
+            const corners: number[] = [];
+            let count = 0;
+            for (let i = 0; i < w3e.corners.length; i++) {
+                if (!predicate(i)) continue;
+                if (corners.length < MAX_LISTED_CORNERS) corners.push(i);
+                count++;
+            }
+            onProgress?.(++passesDone / passes);
+            return { corners, count };
+        };
+
+        for (const [field, min, max] of CORNER_FIELD_LIMITS) {
+            const hit = collect(i => {
+                const value = w3e.corners.getField(i, field);
+                return !(value >= min && value <= max);
+            });
+            if (hit.count > 0) {
+                diagnostics.push({ severity: 'error', code: 'field-range', message: `${cornerCount(hit.count)} ha${hit.count === 1 ? 's' : 've'} ${field} outside ${min}..${max}.`, ...hit });
+            }
+        }
+
+        const ground = collect(i => w3e.corners.getField(i, 'groundTexture') >= header.tilePalette.length);
+        if (ground.count > 0) {
+            diagnostics.push({
+                severity: 'error',
+                code: 'texture-out-of-range',
+                message: `${cornerCount(ground.count)} use${ground.count === 1 ? 's' : ''} a ground texture past the ${header.tilePalette.length}-entry tile palette.`,
+                ...ground
+            });
+        }
+        const cliff = collect(i => w3e.corners.getField(i, 'cliffTexture') >= header.cliffTilePalette.length);
+        if (cliff.count > 0) {
+            diagnostics.push({
+                severity: 'warning',
+                code: 'cliff-texture-out-of-range',
+                message: `${cornerCount(cliff.count)} use${cliff.count === 1 ? 's' : ''} a cliff texture past the ${header.cliffTilePalette.length}-entry cliff palette.`,
+                ...cliff
+            });
+        }
+
+        return diagnostics;
     }
 
-    static encodeW3e(w3e: W3E): Uint8Array {
+    /** Encodes a terrain; unless `validate` is false, refuses to write a file with validation errors. */
+    static encodeW3e(w3e: W3E, validate = true, onProgress?: ProgressCallback): Uint8Array {
+        // Validation, when it runs, takes about as long as writing the corners
+        const split = validate ? 0.5 : 0;
+        if (validate) {
+            const diagnostics = TerrainUtil.validateW3e(w3e, onProgress && (t => onProgress(t * split)));
+            if (diagnostics.some(d => d.severity === 'error')) throw new W3EValidationError(diagnostics);
+        }
+
         const bitstream = new BitStream();
         bitstream.writeString32(w3e.header.fileId);
         bitstream.writeUInt32(w3e.header.version);
@@ -161,25 +503,7 @@ export default class TerrainUtil {
         bitstream.writeFloat32(w3e.header.x);
         bitstream.writeFloat32(w3e.header.y);
 
-        for (const corner of w3e.corners) {
-            bitstream.writeUInt16(Math.round(corner.groundHeight * 4 + 8192));
-            
-            const wHeightRaw = (Math.round(corner.waterHeight * 4 + 8192) & 0x3FFF) | (corner.mapEdge << 14);
-            bitstream.writeUInt16(wHeightRaw);
-
-            const byte4 = (corner.groundTexture & 0x0F) |
-                          (corner.ramp << 4) |
-                          (corner.water << 5) |
-                          (corner.blight << 6) |
-                          (corner.boundary << 7);
-            bitstream.writeUInt8(byte4);
-
-            const byte5 = (corner.groundVariation & 0x1F) | (corner.cliffVariation << 5);
-            bitstream.writeUInt8(byte5);
-
-            const byte6 = (corner.cliffTexture & 0x0F) | (corner.layerHeight << 4);
-            bitstream.writeUInt8(byte6);
-        }
+        bitstream.writeBytes(w3e.corners.toBytes(onProgress && (t => onProgress(split + t * (1 - split)))));
 
         return bitstream.getBuffer();
     }
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface TerrainViewportProps {
+    canvasRef: React.RefObject<HTMLCanvasElement | null>;
+    overlayRef: React.RefObject<HTMLCanvasElement | null>;
+    contentWidth: number;
+    contentHeight: number;
+    onMouseDown: (e: React.MouseEvent<HTMLCanvasElement>) => void;
+    onMouseMove: (e: React.MouseEvent<HTMLCanvasElement>) => void;
+    onMouseLeave: () => void;
+}
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 16;
+const ZOOM_STEP = 1.2;
+
+/**
+ * Zoom and pan around the terrain canvas. The canvas is laid out at
+ * `contentWidth x contentHeight` whatever its pixel size, with the overlay
+ * canvas stacked on top, and placed with a CSS transform, so
+ * getBoundingClientRect-based hit testing keeps working at any zoom. Wheel
+ * zooms around the cursor, middle or right drag pans.
+ */
+const TerrainViewport: React.FC<TerrainViewportProps> = ({ canvasRef, overlayRef, contentWidth, contentHeight, onMouseDown, onMouseMove, onMouseLeave }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+    const panRef = useRef<{ startX: number; startY: number; viewX: number; viewY: number } | null>(null);
+
+    const fit = useCallback(() => {
+        const container = containerRef.current;
+        if (!container || contentWidth === 0 || contentHeight === 0) return;
+        const { clientWidth, clientHeight } = container;
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.min(clientWidth / contentWidth, clientHeight / contentHeight) * 0.95));
+        setView({ zoom, x: (clientWidth - contentWidth * zoom) / 2, y: (clientHeight - contentHeight * zoom) / 2 });
+    }, [contentWidth, contentHeight]);
+
+    useEffect(fit, [fit]);
+
+    const zoomAt = useCallback((factor: number, px: number, py: number) => {
+        setView(v => {
+            const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, v.zoom * factor));
+            const k = zoom / v.zoom;
+            return { zoom, x: px - (px - v.x) * k, y: py - (py - v.y) * k };
+        });
+    }, []);
+
+    // React registers wheel listeners as passive, so preventDefault needs a native one
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [zoomAt]);
+
+    useEffect(() => {
+        const handleMove = (e: MouseEvent) => {
+            const pan = panRef.current;
+            if (!pan) return;
+            setView(v => ({ ...v, x: pan.viewX + e.clientX - pan.startX, y: pan.viewY + e.clientY - pan.startY }));
+        };
+        const handleUp = () => { panRef.current = null; };
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+        };
+    }, []);
+
+    const startPan = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.button !== 1 && e.button !== 2) return;
+        e.preventDefault();
+        panRef.current = { startX: e.clientX, startY: e.clientY, viewX: view.x, viewY: view.y };
+    };
+
+    const placement: React.CSSProperties = {
+        width: contentWidth,
+        height: contentHeight,
+        imageRendering: 'pixelated',
+        transformOrigin: '0 0',
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`
+    };
+
+    const zoomCenter = (factor: number) => {
+        const container = containerRef.current;
+        if (container) zoomAt(factor, container.clientWidth / 2, container.clientHeight / 2);
+    };
+
+    return (
+        <div
+            ref={containerRef}
+            onMouseDown={startPan}
+            onContextMenu={(e) => e.preventDefault()}
+            className="absolute inset-0 overflow-hidden"
+        >
+            <canvas
+                ref={canvasRef}
+                onMouseDown={onMouseDown}
+                onMouseMove={onMouseMove}
+                onMouseLeave={onMouseLeave}
+                className="absolute left-0 top-0 shadow-2xl ring-1 ring-white/10 bg-black"
+                style={placement}
+            />
+            <canvas ref={overlayRef} className="absolute left-0 top-0 pointer-events-none" style={placement} />
+            <div className="absolute top-2 right-2 flex items-center gap-1 bg-black/60 rounded-lg px-1 py-1">
+                <button onClick={() => zoomCenter(1 / ZOOM_STEP)} className="px-2 text-[10px] font-black text-gray-400 hover:text-white">-</button>
+                <span className="text-[8px] font-mono text-gray-400 w-10 text-center">{Math.round(view.zoom * 100)}%</span>
+                <button onClick={() => zoomCenter(ZOOM_STEP)} className="px-2 text-[10px] font-black text-gray-400 hover:text-white">+</button>
+                <button onClick={fit} className="px-2 text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white">Fit</button>
+            </div>
+        </div>
+    );
+};
+
+export default TerrainViewport;
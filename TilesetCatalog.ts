@@ -0,0 +1,227 @@
+import { W3E } from "./TerrainUtil";
+
+export interface TileInfo {
+    id: string;
+    name: string;
+    color: string; // preview color
+}
+
+export interface TilesetInfo {
+    letter: string;
+    name: string;
+    ground: TileInfo[];
+    cliffs: TileInfo[];
+}
+
+export interface ForeignTile {
+    kind: 'ground' | 'cliff';
+    index: number;
+    id: string;
+    known: boolean; // true if the ID exists in another standard tileset
+}
+
+const tile = (id: string, name: string, color: string): TileInfo => ({ id, name, color });
+
+/** Standard Warcraft III tilesets with the ground and cliff tiles World Editor offers for each. */
+export const TILESETS: TilesetInfo[] = [
+    {
+        letter: 'A', name: 'Ashenvale',
+        ground: [
+            tile('Adrt', 'Dirt', '#6b4f2a'), tile('Adrd', 'Rough Dirt', '#574026'), tile('Agrs', 'Grass', '#2f6b2a'),
+            tile('Arck', 'Rock', '#6f6f66'), tile('Agrd', 'Lumpy Grass', '#3d7a33'), tile('Avin', 'Vines', '#1f4f24'),
+            tile('Adrg', 'Grassy Dirt', '#56602f'), tile('Alvd', 'Leaves', '#7a5a1e')
+        ],
+        cliffs: [tile('CAdi', 'Dirt Cliff', '#5a4226'), tile('CAgr', 'Grass Cliff', '#2f5a28')]
+    },
+    {
+        letter: 'B', name: 'Barrens',
+        ground: [
+            tile('Bdrt', 'Dirt', '#9a6a3c'), tile('Bdrh', 'Rough Dirt', '#8a5a32'), tile('Bdrr', 'Pebbles', '#8f7a5e'),
+            tile('Bdrg', 'Grassy Dirt', '#857a3c'), tile('Bdsr', 'Desert', '#d2a86a'), tile('Bdsd', 'Dark Desert', '#a8804e'),
+            tile('Bflr', 'Rock', '#7a6a58'), tile('Bgrr', 'Grass', '#6f7a2e')
+        ],
+        cliffs: [tile('CBde', 'Desert Cliff', '#b08a56'), tile('CBgr', 'Grass Cliff', '#6a6a30')]
+    },
+    {
+        letter: 'C', name: 'Felwood',
+        ground: [
+            tile('Cdrt', 'Dirt', '#4e4030'), tile('Cdrd', 'Rough Dirt', '#443828'), tile('Cpos', 'Poison', '#5c8a2a'),
+            tile('Crck', 'Rock', '#55524a'), tile('Cvin', 'Vines', '#2e4a26'), tile('Cgrs', 'Grass', '#3a5a2a'),
+            tile('Clvg', 'Leaves', '#5a4a22')
+        ],
+        cliffs: [tile('CCdi', 'Dirt Cliff', '#4a3c2c'), tile('CCgr', 'Grass Cliff', '#34502a')]
+    },
+    {
+        letter: 'D', name: 'Dungeon',
+        ground: [
+            tile('Ddrt', 'Dirt', '#5a4632'), tile('Dbrk', 'Brick', '#6e5a4a'), tile('Drds', 'Red Stones', '#7a3a2e'),
+            tile('Dlvc', 'Lava Cracks', '#8b0000'), tile('Dlav', 'Lava', '#ff0000'), tile('Ddkr', 'Dark Rocks', '#3a3430'),
+            tile('Dgrs', 'Grey Stones', '#6a6a6a'), tile('Dsqd', 'Square Tiles', '#7a7266')
+        ],
+        cliffs: [tile('CDdi', 'Dirt Cliff', '#4e3c2c'), tile('CDsq', 'Square Tiles Cliff', '#6a6258')]
+    },
+    {
+        letter: 'F', name: 'Lordaeron Fall',
+        ground: [
+            tile('Fdrt', 'Dirt', '#7a5630'), tile('Fdro', 'Rough Dirt', '#6a4a2a'), tile('Fdrg', 'Grassy Dirt', '#7a6a30'),
+            tile('Frok', 'Rock', '#6e6a62'), tile('Fgrs', 'Grass', '#8a7a2a'), tile('Fgrd', 'Dark Grass', '#6a5a22')
+        ],
+        cliffs: [tile('CFdi', 'Dirt Cliff', '#6a4a2a'), tile('CFgr', 'Grass Cliff', '#7a6a2a')]
+    },
+    {
+        letter: 'G', name: 'Underground',
+        ground: [
+            tile('Gdrt', 'Dirt', '#4e3e2e'), tile('Gbrk', 'Brick', '#5e5044'), tile('Grds', 'Red Stones', '#6a342a'),
+            tile('Glvc', 'Lava Cracks', '#7a1a10'), tile('Glav', 'Lava', '#e0200a'), tile('Gdkr', 'Dark Rocks', '#302c28'),
+            tile('Ggrs', 'Grey Stones', '#5e5e5e'), tile('Gsqd', 'Square Tiles', '#6a645a')
+        ],
+        cliffs: [tile('CGdi', 'Dirt Cliff', '#46382a'), tile('CGsq', 'Square Tiles Cliff', '#5e5850')]
+    },
+    {
+        letter: 'I', name: 'Icecrown Glacier',
+        ground: [
+            tile('Idrt', 'Dirt', '#5a5048'), tile('Idtr', 'Rough Dirt', '#4e4640'), tile('Idki', 'Dark Ice', '#008b8b'),
+            tile('Ibkb', 'Black Bricks', '#2a2a30'), tile('Irbk', 'Runed Bricks', '#3a4650'), tile('Itbk', 'Tiled Bricks', '#004d4d'),
+            tile('Iice', 'Ice', '#ffffff'), tile('Ibsq', 'Black Squares', '#1e1e24'), tile('Isnw', 'Snow', '#e8eef2')
+        ],
+        cliffs: [tile('CIcb', 'Black Brick Cliff', '#2a2a30'), tile('CIsn', 'Snow Cliff', '#dce4ea')]
+    },
+    {
+        letter: 'J', name: 'Dalaran Ruins',
+        ground: [
+            tile('Jdrt', 'Dirt', '#6a5034'), tile('Jdtr', 'Rough Dirt', '#5a442c'), tile('Jblm', 'Black Marble', '#2a2a2a'),
+            tile('Jbtl', 'Brick Tiles', '#7a5a48'), tile('Jsqd', 'Square Tiles', '#7a7468'), tile('Jrtl', 'Round Tiles', '#6e6a60'),
+            tile('Jgsb', 'Grass', '#3e6a2e'), tile('Jhdg', 'Hedge', '#2a4e22'), tile('Jwmb', 'White Marble', '#d8d8d2')
+        ],
+        cliffs: [tile('CJdi', 'Dirt Cliff', '#5a442c'), tile('CJsq', 'Square Tiles Cliff', '#6e685c')]
+    },
+    {
+        letter: 'K', name: 'Black Citadel',
+        ground: [
+            tile('Kdrt', 'Dirt', '#4a3a2e'), tile('Kfsl', 'Light Dirt', '#6a5644'), tile('Kdtr', 'Rough Dirt', '#403228'),
+            tile('Kfst', 'Flat Stones', '#4e4a46'), tile('Ksmb', 'Small Bricks', '#3e3836'), tile('Klgb', 'Large Bricks', '#46403c'),
+            tile('Ksqt', 'Square Tiles', '#545050'), tile('Kdkt', 'Dark Tiles', '#2a2828')
+        ],
+        cliffs: [tile('CKdi', 'Dirt Cliff', '#403228'), tile('CKsq', 'Square Tiles Cliff', '#4a4646')]
+    },
+    {
+        letter: 'L', name: 'Lordaeron Summer',
+        ground: [
+            tile('Ldrt', 'Dirt', '#7a5a36'), tile('Ldro', 'Rough Dirt', '#6a4e30'), tile('Ldrg', 'Grassy Dirt', '#5e6a32'),
+            tile('Lrok', 'Rock', '#707070'), tile('Lgrs', 'Grass', '#3a8a2e'), tile('Lgrd', 'Dark Grass', '#2a6a24')
+        ],
+        cliffs: [tile('CLdi', 'Dirt Cliff', '#6a4e30'), tile('CLgr', 'Grass Cliff', '#3a7a2e')]
+    },
+    {
+        letter: 'N', name: 'Northrend',
+        ground: [
+            tile('Ndrt', 'Dirt', '#5e5044'), tile('Ndrd', 'Dark Dirt', '#463c34'), tile('Nrck', 'Rock', '#6a6a6e'),
+            tile('Ngrs', 'Grass', '#4e6a46'), tile('Nice', 'Ice', '#bfe4f0'), tile('Nsnw', 'Snow', '#f0f4f6'),
+            tile('Nsnr', 'Rocky Snow', '#c8ccd0')
+        ],
+        cliffs: [tile('CNdi', 'Dirt Cliff', '#4e4438'), tile('CNsn', 'Snow Cliff', '#e0e6ea')]
+    },
+    {
+        letter: 'O', name: 'Outland',
+        ground: [
+            tile('Odrt', 'Dirt', '#7a4a2a'), tile('Odtr', 'Light Dirt', '#8a5e3a'), tile('Osmb', 'Rough Dirt', '#704214'),
+            tile('Ofst', 'Cracked Dirt', '#6a3a22'), tile('Olgb', 'Flat Stones', '#6a5a4e'), tile('Orok', 'Rock', '#1a1a1a'),
+            tile('Ofsl', 'Light Flat Stones', '#8a7a6a'), tile('Oaby', 'Abyss', '#000000')
+        ],
+        cliffs: [tile('COdi', 'Dirt Cliff', '#6a3e22'), tile('COhc', 'Hard Cliff', '#3a3432')]
+    },
+    {
+        letter: 'Q', name: 'Village Fall',
+        ground: [
+            tile('Qdrt', 'Dirt', '#7a5a36'), tile('Qdrr', 'Rough Dirt', '#6a4e30'), tile('Qcrp', 'Crops', '#9a7a2a'),
+            tile('Qcbp', 'Cobble Path', '#7a726a'), tile('Qstp', 'Stone Path', '#8a8478'), tile('Qgrs', 'Short Grass', '#8a7a30'),
+            tile('Qrck', 'Rocks', '#6e6a62'), tile('Qgrt', 'Thick Grass', '#7a6a26')
+        ],
+        cliffs: [tile('CQdi', 'Dirt Cliff', '#6a4e30'), tile('CQgr', 'Grass Cliff', '#7a6a2a')]
+    },
+    {
+        letter: 'V', name: 'Village',
+        ground: [
+            tile('Vdrt', 'Dirt', '#7a5a36'), tile('Vdrr', 'Rough Dirt', '#6a4e30'), tile('Vcrp', 'Crops', '#7a8a2a'),
+            tile('Vcbp', 'Cobble Path', '#7a726a'), tile('Vstp', 'Stone Path', '#8a8478'), tile('Vgrs', 'Short Grass', '#4a8a2e'),
+            tile('Vrck', 'Rocks', '#6e6a62'), tile('Vgrt', 'Thick Grass', '#3a7a26')
+        ],
+        cliffs: [tile('CVdi', 'Dirt Cliff', '#6a4e30'), tile('CVgs', 'Grass Cliff', '#3e7a2a')]
+    },
+    {
+        letter: 'W', name: 'Lordaeron Winter',
+        ground: [
+            tile('Wdrt', 'Dirt', '#6a5440'), tile('Wdro', 'Rough Dirt', '#5a4836'), tile('Wsng', 'Snowy Grass', '#a8b8a0'),
+            tile('Wrok', 'Rock', '#707074'), tile('Wgrs', 'Grass', '#4a6a44'), tile('Wsnw', 'Snow', '#f2f4f6')
+        ],
+        cliffs: [tile('CWsn', 'Snow Cliff', '#e0e6ea'), tile('CWgr', 'Grass Cliff', '#4a6a44')]
+    },
+    {
+        letter: 'X', name: 'Dalaran',
+        ground: [
+            tile('Xdrt', 'Dirt', '#6a5034'), tile('Xdtr', 'Rough Dirt', '#5a442c'), tile('Xblm', 'Black Marble', '#2a2a2a'),
+            tile('Xbtl', 'Brick Tiles', '#7a5a48'), tile('Xsqd', 'Square Tiles', '#7a7468'), tile('Xrtl', 'Round Tiles', '#6e6a60'),
+            tile('Xgsb', 'Grass', '#3e7a2e'), tile('Xhdg', 'Hedge', '#2a5a22'), tile('Xwmb', 'White Marble', '#e0e0da')
+        ],
+        cliffs: [tile('CXdi', 'Dirt Cliff', '#5a442c'), tile('CXsq', 'Square Tiles Cliff', '#6e685c')]
+    },
+    {
+        letter: 'Y', name: 'Cityscape',
+        ground: [
+            tile('Ydrt', 'Dirt', '#6a5034'), tile('Ydtr', 'Rough Dirt', '#5a442c'), tile('Yblm', 'Black Marble', '#262626'),
+            tile('Ybtl', 'Brick Tiles', '#7a5240'), tile('Ysqd', 'Square Tiles', '#7a7468'), tile('Yrtl', 'Round Tiles', '#6e6a60'),
+            tile('Ygsb', 'Grass', '#3e7a2e'), tile('Yhdg', 'Hedge', '#2a5a22'), tile('Ywmb', 'White Marble', '#dcdcdc')
+        ],
+        cliffs: [tile('CYcs', 'City Cliff', '#5e5a54'), tile('CYsq', 'Square Tiles Cliff', '#6e685c')]
+    },
+    {
+        letter: 'Z', name: 'Sunken Ruins',
+        ground: [
+            tile('Zdrt', 'Dirt', '#8b4513'), tile('Zdtr', 'Rough Dirt', '#5d2906'), tile('Zdrg', 'Grassy Dirt', '#228b22'),
+            tile('Zbks', 'Small Bricks', '#4b5320'), tile('Zsan', 'Sand', '#edc9af'), tile('Zbkl', 'Large Bricks', '#808080'),
+            tile('Ztil', 'Round Tiles', '#2f4f4f'), tile('Zgrs', 'Grass', '#3a7a2e'), tile('Zvin', 'Dark Grass', '#2a5a22')
+        ],
+        cliffs: [tile('CZdi', 'Dirt Cliff', '#5d3a1a'), tile('CZlb', 'Large Brick Cliff', '#6e6e6e')]
+    }
+];
+
+const GROUND_INDEX = new Map<string, { tile: TileInfo; tileset: string }>();
+const CLIFF_INDEX = new Map<string, { tile: TileInfo; tileset: string }>();
+for (const tileset of TILESETS) {
+    for (const t of tileset.ground) GROUND_INDEX.set(t.id, { tile: t, tileset: tileset.letter });
+    for (const t of tileset.cliffs) CLIFF_INDEX.set(t.id, { tile: t, tileset: tileset.letter });
+}
+
+export default class TilesetCatalog {
+    static getTileset(letter: string): TilesetInfo | undefined {
+        return TILESETS.find(t => t.letter === letter);
+    }
+
+    static getGroundTile(id: string): TileInfo | undefined {
+        return GROUND_INDEX.get(id)?.tile;
+    }
+
+    static getCliffTile(id: string): TileInfo | undefined {
+        return CLIFF_INDEX.get(id)?.tile;
+    }
+
+    /** Letter of the standard tileset a ground or cliff tile comes from. */
+    static getTileOrigin(id: string): string | undefined {
+        return GROUND_INDEX.get(id)?.tileset ?? CLIFF_INDEX.get(id)?.tileset;
+    }
+
+    /** Palette entries that are not part of the map's base tileset. */
+    static findForeignTiles(w3e: W3E): ForeignTile[] {
+        const tileset = TilesetCatalog.getTileset(w3e.header.baseTileset);
+        const result: ForeignTile[] = [];
+        const check = (kind: ForeignTile['kind'], tiles: string[], allowed: TileInfo[] | undefined, index: Map<string, unknown>) => {
+            tiles.forEach((id, i) => {
+                if (allowed && allowed.some(t => t.id === id)) return;
+                result.push({ kind, index: i, id, known: index.has(id) });
+            });
+        };
+        check('ground', w3e.header.tilePalette, tileset?.ground, GROUND_INDEX);
+        check('cliff', w3e.header.cliffTilePalette, tileset?.cliffs, CLIFF_INDEX);
+        return result;
+    }
+}
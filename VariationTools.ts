@@ -0,0 +1,83 @@
+import { W3E } from "./TerrainUtil";
+import CornerData from "./CornerData";
+
+export type VariationBrush =
+    | { kind: 'randomize'; seed: number }
+    | { kind: 'set'; variation: number };
+
+/** groundVariation is stored in 5 bits. */
+export const GROUND_VARIATION_MAX = 31;
+
+/**
+ * Relative odds of each ground variation when randomizing. The table covers
+ * every variation the game draws differently (per mdx-m3-viewer's
+ * `getVariation`): 0-15 pick the 16 cells of an extended tile sheet, 16 draws
+ * cell 15 and everything from 17 up draws cell 0, so 17 stands for all of
+ * those. The World Editor's own odds are not documented anywhere we could
+ * check; the plain-to-decorated ratio below is a placeholder until they are.
+ */
+export const VARIATION_WEIGHTS = [48, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3];
+
+const TOTAL_WEIGHT = VARIATION_WEIGHTS.reduce((a, b) => a + b, 0);
+
+/**
+ * Ground variation painting and randomization.
+ * Random picks are a pure function of (seed, corner index), so the same seed
+ * gives the same variations regardless of stroke order or who runs it.
+ */
+export default class VariationTools {
+    /** Weighted random variation for one corner. */
+    static variationAt(seed: number, index: number): number {
+        let roll = VariationTools.hash(seed, index) * TOTAL_WEIGHT;
+        for (let v = 0; v < VARIATION_WEIGHTS.length; v++) {
+            roll -= VARIATION_WEIGHTS[v];
+            if (roll < 0) return v;
+        }
+        return 0;
+    }
+
+    /** Applies a variation brush to the given corners. Returns null when nothing changed. */
+    static applyBrush(w3e: W3E, indices: number[], brush: VariationBrush): W3E | null {
+        let corners: CornerData | null = null;
+
+        for (const idx of indices) {
+            const variation = brush.kind === 'set'
+                ? Math.min(GROUND_VARIATION_MAX, Math.max(0, Math.round(brush.variation)))
+                : VariationTools.variationAt(brush.seed, idx);
+            if (w3e.corners.getField(idx, 'groundVariation') !== variation) {
+                corners = corners || w3e.corners.clone();
+                corners.setField(idx, 'groundVariation', variation);
+            }
+        }
+        return corners ? { ...w3e, corners } : null;
+    }
+
+    /** Randomizes every corner accepted by `filter` (all corners by default). */
+    static randomize(w3e: W3E, seed: number, filter: (index: number) => boolean = () => true): W3E {
+        let corners: CornerData | null = null;
+        for (let i = 0; i < w3e.corners.length; i++) {
+            if (!filter(i)) continue;
+            const variation = VariationTools.variationAt(seed, i);
+            if (w3e.corners.getField(i, 'groundVariation') !== variation) {
+                corners = corners || w3e.corners.clone();
+                corners.setField(i, 'groundVariation', variation);
+            }
+        }
+        return corners ? { ...w3e, corners } : w3e;
+    }
+
+    /** Randomizes the corners whose ground texture differs between `before` and `after`. */
+    static randomizeRetextured(before: W3E, after: W3E, seed: number): W3E {
+        if (before.corners.length !== after.corners.length) return after;
+        return VariationTools.randomize(after, seed, i =>
+            before.corners.getField(i, 'groundTexture') !== after.corners.getField(i, 'groundTexture'));
+    }
+
+    /** Integer hash of (seed, index) mapped to [0, 1). */
+    private static hash(seed: number, index: number): number {
+        let h = (seed ^ Math.imul(index + 1, 0x9E3779B1)) >>> 0;
+        h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+        h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+        return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+    }
+}
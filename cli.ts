@@ -0,0 +1,209 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import TerrainUtil, { W3E, W3EDiagnostic } from './TerrainUtil';
+import ImageMapping from './ImageMapping';
+import PngCodec from './PngCodec';
+
+/**
+ * Headless entry point for build pipelines. Uses only the DOM-free modules,
+ * so it runs under plain Node: `npm run build:cli && npm run w3e -- <command>`.
+ */
+
+const USAGE = `Usage: w3e <command> [options]
+
+Commands:
+  info <map.w3e> [--json] [-o out.json]        Print a summary, or the full map as JSON
+  validate <map.w3e>                           Report problems; exits with 1 on errors
+  new <width> <height> [--tileset L] -o <out>  Create a flat map (sizes in corners)
+  resize <map.w3e> -o <out> [--left N] [--right N] [--bottom N] [--top N]
+                                               Add (or with negative N, crop) corners per side
+  resample <map.w3e> <width> <height> -o <out> Scale the map to a new size
+  apply <map.w3e> <image.png> <mapping.json> -o <out>
+                                               Map an image onto ground textures, like Apply Mapping
+
+Mapping files are saved from the app ("Save Mapping") or written by hand;
+apply needs "resample": "area", since browser resampling only exists in the app:
+  { "targets": [{ "slot": 0, "color": "#228b22", "weight": 1 }],
+    "options": { "match": "lab", "dither": "none", "resample": "area" } }`;
+
+interface Args {
+    positional: string[];
+    flags: Map<string, string | true>;
+}
+
+const parseArgs = (argv: string[]): Args => {
+    const positional: string[] = [];
+    const flags = new Map<string, string | true>();
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '-o') {
+            flags.set('out', argv[++i] ?? true);
+        } else if (arg.startsWith('--')) {
+            const [name, value] = arg.slice(2).split('=', 2);
+            if (value !== undefined) flags.set(name, value);
+            else if (name === 'json' || name === 'help') flags.set(name, true);
+            else flags.set(name, argv[++i] ?? true);
+        } else {
+            positional.push(arg);
+        }
+    }
+    return { positional, flags };
+};
+
+const requireArg = (args: Args, index: number, name: string): string => {
+    const value = args.positional[index];
+    if (value === undefined) throw new Error(`Missing <${name}>`);
+    return value;
+};
+
+const requireOut = (args: Args): string => {
+    const out = args.flags.get('out');
+    if (typeof out !== 'string') throw new Error("Missing -o <output file>");
+    return out;
+};
+
+const intArg = (value: string | true | undefined, name: string, fallback?: number): number => {
+    if (value === undefined && fallback !== undefined) return fallback;
+    const n = typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isInteger(n)) throw new Error(`${name} must be a whole number, got '${value}'`);
+    return n;
+};
+
+const printDiagnostics = (diagnostics: W3EDiagnostic[]) => {
+    for (const d of diagnostics) {
+        const where = d.offset !== undefined ? ` @${d.offset}` : d.corners?.length ? ` corners ${d.corners.join(",")}` : '';
+        console.log(`${d.severity.padEnd(7)} ${d.code}${where}: ${d.message}`);
+    }
+};
+
+/** Strict decode; decode errors abort the command with the full report. */
+const loadW3e = async (path: string): Promise<W3E> => {
+    const report = TerrainUtil.decodeW3eStrict(new Uint8Array(await readFile(path)));
+    if (!report.w3e || report.diagnostics.some(d => d.severity === 'error')) {
+        printDiagnostics(report.diagnostics);
+        throw new Error(`Could not decode ${path}`);
+    }
+    return report.w3e;
+};
+
+const saveW3e = async (path: string, w3e: W3E) => {
+    await writeFile(path, TerrainUtil.encodeW3e(w3e));
+    console.log(`Wrote ${path} (${w3e.header.width}x${w3e.header.height})`);
+};
+
+const summarize = (w3e: W3E): string => {
+    const { header, corners } = w3e;
+    const slotCount = header.tilePalette.length;
+    const usage = new Array(slotCount).fill(0);
+    let minHeight = Infinity, maxHeight = -Infinity, water = 0, unpaletted = 0;
+    for (let i = 0; i < corners.length; i++) {
+        const slot = corners.getField(i, 'groundTexture');
+        if (slot < slotCount) usage[slot]++;
+        else unpaletted++;
+        const h = corners.getWorldHeight(i);
+        minHeight = Math.min(minHeight, h);
+        maxHeight = Math.max(maxHeight, h);
+        water += corners.getField(i, 'water');
+    }
+    const lines = [
+        `${header.fileId} v${header.version}, tileset '${header.baseTileset}'${header.hasCustomTileset ? ' (custom)' : ''}`,
+        `Size:     ${header.width}x${header.height} corners, offset (${header.x}, ${header.y})`,
+        `Heights:  ${minHeight} .. ${maxHeight} world units`,
+        `Water:    ${water} corners`,
+        `Ground palette:`,
+        // Corners store the slot in 4 bits, so palette entries past 15 can never be used
+        ...header.tilePalette.map((id, i) => `  ${String(i).padStart(2)} ${id}  ${i > 15 ? 'unreachable (corners address slots 0-15)' : `${usage[i]} corners`}`),
+        ...(unpaletted > 0 ? [`  ${unpaletted} corners use slots past the ${slotCount}-entry palette`] : []),
+        `Cliff palette: ${header.cliffTilePalette.join(", ") || '(empty)'}`
+    ];
+    return lines.join("\n");
+};
+
+const commands: Record<string, (args: Args) => Promise<number>> = {
+    async info(args) {
+        const w3e = await loadW3e(requireArg(args, 1, 'map.w3e'));
+        const text = args.flags.has('json')
+            ? JSON.stringify({ header: w3e.header, corners: w3e.corners.map(c => c) })
+            : summarize(w3e);
+        const out = args.flags.get('out');
+        if (typeof out === 'string') await writeFile(out, text);
+        else console.log(text);
+        return 0;
+    },
+
+    async validate(args) {
+        const path = requireArg(args, 1, 'map.w3e');
+        // Strict decoding already includes the validation of a decoded map
+        const { diagnostics } = TerrainUtil.decodeW3eStrict(new Uint8Array(await readFile(path)));
+        printDiagnostics(diagnostics);
+        const errors = diagnostics.filter(d => d.severity === 'error').length;
+        console.log(`${path}: ${errors} errors, ${diagnostics.length - errors} warnings`);
+        return errors > 0 ? 1 : 0;
+    },
+
+    async new(args) {
+        const width = intArg(requireArg(args, 1, 'width'), 'width');
+        const height = intArg(requireArg(args, 2, 'height'), 'height');
+        const tileset = args.flags.get('tileset');
+        await saveW3e(requireOut(args), TerrainUtil.generateEmptyW3e(width, height, typeof tileset === 'string' ? tileset : undefined));
+        return 0;
+    },
+
+    async resize(args) {
+        const w3e = await loadW3e(requireArg(args, 1, 'map.w3e'));
+        const margin = (name: string) => intArg(args.flags.get(name), `--${name}`, 0);
+        await saveW3e(requireOut(args), TerrainUtil.resizeW3e(w3e, {
+            left: margin('left'),
+            right: margin('right'),
+            bottom: margin('bottom'),
+            top: margin('top')
+        }));
+        return 0;
+    },
+
+    async resample(args) {
+        const w3e = await loadW3e(requireArg(args, 1, 'map.w3e'));
+        const width = intArg(requireArg(args, 2, 'width'), 'width');
+        const height = intArg(requireArg(args, 3, 'height'), 'height');
+        await saveW3e(requireOut(args), TerrainUtil.resampleW3e(w3e, width, height));
+        return 0;
+    },
+
+    async apply(args) {
+        const w3e = await loadW3e(requireArg(args, 1, 'map.w3e'));
+        const imagePath = requireArg(args, 2, 'image.png');
+        const { targets, options } = ImageMapping.parseMapping(await readFile(requireArg(args, 3, 'mapping.json'), 'utf8'));
+        // The browser's canvas stretch has no headless equivalent, and a substitute would give different terrain than the app
+        if (options.resample !== 'area') {
+            throw new Error(`The mapping uses '${options.resample}' resampling, which only the app can do; save it with "resample": "area" to apply it here`);
+        }
+        const slotCount = w3e.header.tilePalette.length;
+        const missing = targets.find(t => t.slotIndex >= slotCount);
+        if (missing) throw new Error(`Mapping uses slot ${missing.slotIndex}, but the map's palette has ${slotCount} tiles`);
+
+        const png = await PngCodec.decode(new Uint8Array(await readFile(imagePath)));
+        if (!png) throw new Error(`${imagePath} is not a PNG this tool can read (8/16-bit, non-interlaced, no palette)`);
+        const { width, height } = w3e.header;
+        const rgb = ImageMapping.resampleArea(PngCodec.toRgba8(png), width, height);
+        const slots = ImageMapping.mapToSlots(rgb, width, height, targets, options);
+        await saveW3e(requireOut(args), ImageMapping.writeSlots(w3e, slots));
+        return 0;
+    }
+};
+
+const main = async () => {
+    const args = parseArgs(process.argv.slice(2));
+    const command = commands[args.positional[0]];
+    if (!command || args.flags.has('help')) {
+        console.log(USAGE);
+        return command || args.flags.has('help') ? 0 : 1;
+    }
+    return command(args);
+};
+
+main().then(
+    code => { process.exitCode = code; },
+    (err: Error) => {
+        console.error(`Error: ${err.message}`);
+        process.exitCode = 1;
+    }
+);